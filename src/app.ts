@@ -21,6 +21,15 @@ import profileRouter from './routes/profile.routes.js';
 import searchRouter from './routes/search.routes.js';
 import followRouter from './routes/follow.routes.js';
 import paymentRoute from './routes/payment.routes.js';
+import adminRouter from './routes/admin.routes.js';
+import feedRouter from './routes/feed.routes.js';
+import tagRouter from './routes/tag.routes.js';
+import categoryRouter from './routes/category.routes.js';
+import bookmarkRouter from './routes/bookmark.routes.js';
+import readingListRouter from './routes/readingList.routes.js';
+import analyticsRouter from './routes/analytics.routes.js';
+import seriesRouter from './routes/series.routes.js';
+import invitationRouter from './routes/invitation.routes.js';
 import config from './config/config.js';
 
 // env config
@@ -31,6 +40,10 @@ const __dirname = dirname(__filename);
 
 const app = express();
 
+// Behind one reverse proxy, so req.ip is the client's address for view
+// counting and rate limiting, not the proxy's
+app.set('trust proxy', 1);
+
 // Database connection
 dbConnect();
 
@@ -73,6 +86,15 @@ app.use('/api/v1/profile', profileRouter);
 app.use('/api/v1/search', searchRouter);
 app.use('/api/v1/user', followRouter);
 app.use('/api/v1/payment', paymentRoute);
+app.use('/api/v1/admin', adminRouter);
+app.use('/api/v1/feed', feedRouter);
+app.use('/api/v1/tags', tagRouter);
+app.use('/api/v1/categories', categoryRouter);
+app.use('/api/v1/me', bookmarkRouter);
+app.use('/api/v1/me', analyticsRouter);
+app.use('/api/v1/me', invitationRouter);
+app.use('/api/v1/series', seriesRouter);
+app.use('/api/v1/lists', readingListRouter);
 
 // Health Check Route
 app.get('/', (req, res) => {
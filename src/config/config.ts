@@ -3,31 +3,87 @@ import env from 'dotenv';
 env.config();
 
 interface Config {
+    NODE_ENV: string;
     PORT: number;
     MONGODB_URI: string;
     DB_NAME: string;
     CORS_ORIGIN: string;
     JWT_SECRET: string;
+    ACCESS_TOKEN_TTL: number; // seconds
+    REFRESH_TOKEN_TTL: number; // seconds
+    TWO_FACTOR_ISSUER: string;
+    ACCOUNT_DELETION_GRACE_DAYS: number;
+    DATA_EXPORT_DIR: string;
+    DATA_EXPORT_TTL_HOURS: number;
+    VIEW_DEDUP_MINUTES: number;
     GOOGLE_CLIENT_ID: string;
     GOOGLE_CLIENT_SECRET: string;
     GOOGLE_CALLBACK: string;
+    OAUTH_REDIRECT_URLS: string[];
     CLOUDINARY_CLOUD_NAME: string;
     CLOUDINARY_API_KEY: string;
+    MAX_UPLOAD_MB: number;
     RAZORPAY_SECRET: string;
+    PREMIUM_PRICE: number;
+    PREMIUM_DAYS: number;
+    CLIENT_URL: string;
+    MAIL_TRANSPORT: 'smtp' | 'outbox';
+    MAIL_FROM: string;
+    MAIL_OUTBOX_DIR: string;
+    SMTP_HOST: string;
+    SMTP_PORT: number;
+    SMTP_USER: string;
+    SMTP_PASS: string;
 }
 
 const config: Config = {
+    NODE_ENV: process.env.NODE_ENV || 'development',
     PORT: parseInt(process.env.PORT || '3333', 10),
     MONGODB_URI: process.env.MONGO_URI as string,
     DB_NAME: process.env.DB_NAME as string,
     CORS_ORIGIN: process.env.CORS_ORIGIN as string,
     JWT_SECRET: process.env.JWT_SECRET as string,
+    ACCESS_TOKEN_TTL: parseInt(process.env.ACCESS_TOKEN_TTL || '900', 10),
+    REFRESH_TOKEN_TTL: parseInt(process.env.REFRESH_TOKEN_TTL || '2592000', 10),
+    TWO_FACTOR_ISSUER: process.env.TWO_FACTOR_ISSUER || 'Softcore',
+    ACCOUNT_DELETION_GRACE_DAYS: parseInt(
+        process.env.ACCOUNT_DELETION_GRACE_DAYS || '30',
+        10
+    ),
+    DATA_EXPORT_DIR: process.env.DATA_EXPORT_DIR || './exports',
+    DATA_EXPORT_TTL_HOURS: parseInt(
+        process.env.DATA_EXPORT_TTL_HOURS || '24',
+        10
+    ),
+    // Repeat views of a post by the same visitor within this window count once
+    VIEW_DEDUP_MINUTES: parseInt(process.env.VIEW_DEDUP_MINUTES || '30', 10),
     GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID as string,
     GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET as string,
     GOOGLE_CALLBACK: process.env.GOOGLE_CALLBACK as string,
+    // Frontend URLs the Google callback may redirect to, the first is the default
+    OAUTH_REDIRECT_URLS: (
+        process.env.OAUTH_REDIRECT_URLS ||
+        'https://softcoreapp.vercel.app/google/callback/'
+    )
+        .split(',')
+        .map((url) => url.trim())
+        .filter(Boolean),
     CLOUDINARY_CLOUD_NAME: process.env.CLOUDINARY_CLOUD_NAME as string,
     CLOUDINARY_API_KEY: process.env.CLOUDINARY_API_KEY as string,
-    RAZORPAY_SECRET: process.env.RAZORPAY_SECRET as string
+    // Largest file accepted per upload
+    MAX_UPLOAD_MB: parseInt(process.env.MAX_UPLOAD_MB || '10', 10),
+    RAZORPAY_SECRET: process.env.RAZORPAY_SECRET as string,
+    // Price in rupees of premium for PREMIUM_DAYS, set here and not by clients
+    PREMIUM_PRICE: parseInt(process.env.PREMIUM_PRICE || '199', 10),
+    PREMIUM_DAYS: parseInt(process.env.PREMIUM_DAYS || '30', 10),
+    CLIENT_URL: (process.env.CLIENT_URL || process.env.CORS_ORIGIN) as string,
+    MAIL_TRANSPORT: process.env.MAIL_TRANSPORT === 'smtp' ? 'smtp' : 'outbox',
+    MAIL_FROM: process.env.MAIL_FROM || 'Softcore <no-reply@softcore.app>',
+    MAIL_OUTBOX_DIR: process.env.MAIL_OUTBOX_DIR as string,
+    SMTP_HOST: process.env.SMTP_HOST as string,
+    SMTP_PORT: parseInt(process.env.SMTP_PORT || '587', 10),
+    SMTP_USER: process.env.SMTP_USER as string,
+    SMTP_PASS: process.env.SMTP_PASS as string
 };
 
 export default config;
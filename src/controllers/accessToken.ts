@@ -0,0 +1,116 @@
+import { ZodError } from 'zod';
+import mongoose from 'mongoose';
+import { Request, Response } from 'express';
+import { generatePersonalAccessToken } from '../utils/accessToken.js';
+import { createAccessTokenValidation } from '../validations/user.validation.js';
+import personalAccessTokenModel from '../models/personalAccessToken.model.js';
+
+// create a personal access token, the token is only returned this once
+export const createAccessToken = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        const { name, scopes, expiresInDays } =
+            createAccessTokenValidation.parse(req.body);
+
+        const { token, tokenHash, prefix } = generatePersonalAccessToken();
+
+        const accessToken = await personalAccessTokenModel.create({
+            user: userId,
+            name,
+            tokenHash,
+            prefix,
+            scopes,
+            expiresAt: expiresInDays
+                ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+                : undefined
+        });
+
+        return res.status(201).json({
+            success: true,
+            token,
+            accessToken: {
+                id: accessToken._id,
+                name: accessToken.name,
+                prefix: accessToken.prefix,
+                scopes: accessToken.scopes,
+                expiresAt: accessToken.expiresAt
+            },
+            message:
+                'Access token created. Copy it now, it will not be shown again.'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to create access token',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// list the current user's personal access tokens
+export const getAccessTokens = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+
+        const accessTokens = await personalAccessTokenModel
+            .find({ user: userId })
+            .sort({ createdAt: -1 })
+            .select('name prefix scopes expiresAt lastUsedAt createdAt');
+
+        return res.status(200).json({
+            success: true,
+            accessTokens
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get access tokens',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// revoke one of the current user's personal access tokens
+export const deleteAccessToken = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        const tokenId = req.params.id;
+
+        if (!mongoose.Types.ObjectId.isValid(tokenId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid token ID' });
+        }
+
+        const deletedToken = await personalAccessTokenModel.findOneAndDelete({
+            _id: tokenId,
+            user: userId
+        });
+
+        if (!deletedToken) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Access token not found' });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: 'Access token revoked successfully'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to revoke access token',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -0,0 +1,132 @@
+import { ZodError } from 'zod';
+import mongoose from 'mongoose';
+import { Request, Response } from 'express';
+import userModel from '../models/user.model.js';
+import { purgeUser } from '../utils/accountDeletion.js';
+import {
+    getUsersValidation,
+    updateRoleValidation
+} from '../validations/admin.validation.js';
+
+// list users, optionally filtered by role
+export const getUsers = async (req: Request, res: Response) => {
+    try {
+        const { role, page, limit } = getUsersValidation.parse(req.query);
+
+        const filter = role ? { role } : {};
+
+        const [users, total] = await Promise.all([
+            userModel
+                .find(filter)
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .select('username fullname email role createdAt'),
+            userModel.countDocuments(filter)
+        ]);
+
+        return res.status(200).json({
+            success: true,
+            users,
+            page,
+            totalUsers: total
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get users',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// change the role of a user
+export const updateUserRole = async (req: Request, res: Response) => {
+    try {
+        const userId = req.params.id;
+        const { role } = updateRoleValidation.parse(req.body);
+
+        if (!mongoose.Types.ObjectId.isValid(userId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid user ID' });
+        }
+
+        if (userId === req.user?.id) {
+            return res.status(400).json({
+                success: false,
+                message: 'You cannot change your own role'
+            });
+        }
+
+        const user = await userModel
+            .findByIdAndUpdate(userId, { role }, { new: true })
+            .select('username fullname email role');
+
+        if (!user) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'User not found' });
+        }
+
+        return res.status(200).json({
+            success: true,
+            user,
+            message: 'Role updated successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to update role',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// remove a user and everything they left behind, skipping the grace period
+export const deleteUser = async (req: Request, res: Response) => {
+    try {
+        const userId = req.params.id;
+
+        if (!mongoose.Types.ObjectId.isValid(userId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid user ID' });
+        }
+
+        const user = await userModel.findById(userId);
+
+        if (!user) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'User not found' });
+        }
+
+        await purgeUser(user.id);
+
+        return res
+            .status(200)
+            .json({ success: true, message: 'User deleted successfully' });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to delete user',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -0,0 +1,41 @@
+import { ZodError } from 'zod';
+import { Request, Response } from 'express';
+import { getAuthorAnalytics } from '../utils/analytics.js';
+import { analyticsValidation } from '../validations/analytics.validation.js';
+
+// how the logged-in user's posts and audience did, day by day
+export const getMyAnalytics = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return res.status(401).json({
+                success: false,
+                message: 'You are not authenticated. Please Signin'
+            });
+        }
+
+        const { days } = analyticsValidation.parse(req.query);
+
+        const analytics = await getAuthorAnalytics(userId, days);
+
+        return res.status(200).json({
+            success: true,
+            analytics,
+            message: 'Analytics retrieved successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get analytics',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
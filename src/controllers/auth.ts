@@ -1,15 +1,52 @@
 import bcrypt from 'bcrypt';
 import { ZodError } from 'zod';
-import jwt from 'jsonwebtoken';
-import config from '../config/config.js';
 import { Request, Response } from 'express';
 import userModel from '../models/user.model.js';
-import postModel from '../models/post.model.js';
+import { User } from '../interfaces/interfaces.js';
 import {
     signinValidation,
     signupValidation
 } from '../validations/user.validation.js';
-import { changePasswordValidation } from '../validations/user.validation.js';
+import {
+    changePasswordValidation,
+    setPasswordValidation,
+    verifyEmailValidation,
+    forgotPasswordValidation,
+    resetPasswordValidation,
+    twoFactorVerifyValidation
+} from '../validations/user.validation.js';
+import {
+    createSession,
+    setAuthCookies,
+    clearAuthCookies,
+    revokeAccessToken,
+    revokeRefreshToken,
+    revokeUserSessions
+} from '../utils/session.js';
+import {
+    consumeOneTimeToken,
+    sendVerificationEmail,
+    sendPasswordResetEmail
+} from '../utils/verification.js';
+import {
+    verifyTotp,
+    hashRecoveryCode,
+    signChallengeToken,
+    verifyChallengeToken,
+    registerChallengeAttempt,
+    isTwoFactorLocked,
+    registerTwoFactorFailure,
+    clearTwoFactorFailures
+} from '../utils/twoFactor.js';
+import {
+    getLoginRetryAfter,
+    recordFailedLogin,
+    clearFailedLogins
+} from '../utils/loginThrottle.js';
+import {
+    cancelAccountDeletion,
+    scheduleAccountDeletion
+} from '../utils/accountDeletion.js';
 
 export const signup = async (req: Request, res: Response) => {
     try {
@@ -38,6 +75,13 @@ export const signup = async (req: Request, res: Response) => {
             profilePicture
         });
 
+        // A failing mail server should not fail the signup itself
+        try {
+            await sendVerificationEmail(User);
+        } catch (mailError) {
+            console.error('Failed to send verification email:', mailError);
+        }
+
         // Return the created user details (excluding the password)
         return res.status(201).json({
             success: true,
@@ -47,9 +91,11 @@ export const signup = async (req: Request, res: Response) => {
                 fullname: User.fullname,
                 email: User.email,
                 profilePicture: User.profilePicture,
-                bio: User.bio
+                bio: User.bio,
+                isEmailVerified: User.isEmailVerified
             },
-            message: 'User created successfully'
+            message:
+                'User created successfully. Please check your email to verify your account.'
         });
     } catch (error) {
         // Handle validation errors from Zod
@@ -69,55 +115,82 @@ export const signup = async (req: Request, res: Response) => {
     }
 };
 
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('dummy-password', 10);
+
+// Start a session for an authenticated user and send it back to the client
+const completeSignin = async (req: Request, res: Response, user: User) => {
+    const tokens = await createSession(user.id, req);
+    setAuthCookies(res, tokens);
+
+    // Logging in during the deletion grace period keeps the account
+    const deletionCancelled = await cancelAccountDeletion(user.id);
+
+    return res.status(200).json({
+        success: true,
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        user: {
+            id: user._id,
+            username: user.username,
+            email: user.email,
+            profilePicture: user.profilePicture,
+            bio: user.bio,
+            isEmailVerified: user.isEmailVerified
+        },
+        message: deletionCancelled
+            ? 'Login successful. Your account deletion has been cancelled.'
+            : 'Login successful'
+    });
+};
+
 export const signin = async (req: Request, res: Response) => {
     try {
         const parsedData = signinValidation.parse(req.body);
         const { email, password } = parsedData;
 
-        const user = await userModel.findOne({ email });
+        const ip = req.ip || 'unknown';
 
-        if (!user) {
-            return res.status(404).json({
+        const retryAfter = await getLoginRetryAfter(email, ip);
+        if (retryAfter > 0) {
+            res.setHeader('Retry-After', retryAfter);
+            return res.status(429).json({
                 success: false,
-                message:
-                    'User is not registered with this email. Please register to continue.'
+                message: `Too many failed sign in attempts. Please try again in ${retryAfter} seconds.`
             });
         }
 
-        const passwordMatch = await bcrypt.compare(password, user.password);
+        const user = await userModel.findOne({ email });
 
-        if (!passwordMatch) {
+        // Compare against a dummy hash when there is no password so that
+        // unknown emails take as long to reject as wrong passwords
+        const passwordMatch = await bcrypt.compare(
+            password,
+            user?.password || DUMMY_PASSWORD_HASH
+        );
+
+        // Same answer for unknown emails, Google-only accounts and wrong
+        // passwords so accounts cannot be enumerated
+        if (!user || !user.password || !passwordMatch) {
+            await recordFailedLogin(email, ip);
             return res.status(401).json({
                 success: false,
-                message: 'Incorrect password. Please try again.'
+                message: 'Invalid email or password'
             });
         }
 
-        const token = jwt.sign(
-            { id: user._id, email: user.email },
-            config.JWT_SECRET,
-            { expiresIn: '72h' }
-        );
+        await clearFailedLogins(email);
 
-        res.cookie('token', token, {
-            maxAge: 72 * 60 * 60 * 1000,
-            httpOnly: true,
-            secure: true,
-            sameSite: 'none'
-        });
+        // Password accounts with 2FA must finish signin with a code first
+        if (user.twoFactorEnabled) {
+            return res.status(200).json({
+                success: true,
+                twoFactorRequired: true,
+                challengeToken: signChallengeToken(user.id),
+                message: 'Enter the code from your authenticator app'
+            });
+        }
 
-        return res.status(200).json({
-            success: true,
-            token: token,
-            user: {
-                id: user._id,
-                username: user.username,
-                email: user.email,
-                profilePicture: user.profilePicture,
-                bio: user.bio
-            },
-            message: 'Login successful'
-        });
+        return completeSignin(req, res, user);
     } catch (error) {
         // Handle validation errors from Zod
         if (error instanceof ZodError) {
@@ -136,13 +209,104 @@ export const signin = async (req: Request, res: Response) => {
     }
 };
 
-export const logout = (req: Request, res: Response) => {
+export const verifyTwoFactor = async (req: Request, res: Response) => {
     try {
-        // Clear the token from client's cookies
-        res.clearCookie('token', {
-            httpOnly: true,
-            sameSite: 'strict'
+        const { challengeToken, code } = twoFactorVerifyValidation.parse(
+            req.body
+        );
+
+        const challenge = verifyChallengeToken(challengeToken);
+
+        if (!challenge || !challenge.jti) {
+            return res.status(401).json({
+                success: false,
+                message:
+                    'Your sign in attempt has expired. Please sign in again.'
+            });
+        }
+
+        if (await isTwoFactorLocked(challenge.id)) {
+            return res.status(429).json({
+                success: false,
+                message:
+                    'Too many incorrect codes. Please try again in a few minutes.'
+            });
+        }
+
+        if (!(await registerChallengeAttempt(challenge.jti))) {
+            return res.status(429).json({
+                success: false,
+                message: 'Too many incorrect codes. Please sign in again.'
+            });
+        }
+
+        const user = await userModel
+            .findById(challenge.id)
+            .select('+twoFactorSecret +twoFactorRecoveryCodes');
+
+        if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+            return res.status(401).json({
+                success: false,
+                message:
+                    'Your sign in attempt has expired. Please sign in again.'
+            });
+        }
+
+        let verified = await verifyTotp(user.id, user.twoFactorSecret, code);
+
+        // Fall back to a one-time recovery code
+        if (!verified) {
+            const result = await userModel.updateOne(
+                {
+                    _id: user._id,
+                    twoFactorRecoveryCodes: hashRecoveryCode(code)
+                },
+                { $pull: { twoFactorRecoveryCodes: hashRecoveryCode(code) } }
+            );
+            verified = result.modifiedCount === 1;
+        }
+
+        if (!verified) {
+            await registerTwoFactorFailure(user.id);
+            return res.status(401).json({
+                success: false,
+                message: 'Invalid authentication code. Please try again.'
+            });
+        }
+
+        await clearTwoFactorFailures(user.id);
+        return completeSignin(req, res, user);
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error('Error during 2FA verification:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to verify authentication code',
+            error: error instanceof Error ? error.message : 'Unknown error'
         });
+    }
+};
+
+export const logout = async (req: Request, res: Response) => {
+    try {
+        const accessToken = req.cookies.token || req.headers.authorization;
+        const refreshToken = req.cookies.refreshToken || req.body?.refreshToken;
+
+        // End the session so neither of its tokens can be used any more
+        if (accessToken) {
+            await revokeAccessToken(accessToken);
+        }
+        if (refreshToken) {
+            await revokeRefreshToken(refreshToken);
+        }
+
+        // Clear the tokens from client's cookies
+        clearAuthCookies(res);
 
         return res.status(200).json({
             success: true,
@@ -158,12 +322,40 @@ export const logout = (req: Request, res: Response) => {
     }
 };
 
+export const logoutEverywhere = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return res.status(401).json({
+                success: false,
+                message: 'You are not authenticated. Please Signin'
+            });
+        }
+
+        await revokeUserSessions(userId);
+        clearAuthCookies(res);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Logged out from all devices'
+        });
+    } catch (error) {
+        console.error('Error during logout everywhere:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to log out from all devices',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
 export const changePassword = async (req: Request, res: Response) => {
     try {
         const userId = req.user?.id;
         const parsedData = changePasswordValidation.parse(req.body);
 
-        const { password } = parsedData;
+        const { currentPassword, password } = parsedData;
 
         const user = await userModel.findById(userId);
         if (!user) {
@@ -172,6 +364,26 @@ export const changePassword = async (req: Request, res: Response) => {
                 .json({ success: false, message: 'User not found' });
         }
 
+        if (!user.password) {
+            return res.status(400).json({
+                success: false,
+                message:
+                    'Your account does not have a password yet. Use forgot password to set one.'
+            });
+        }
+
+        const passwordMatch = await bcrypt.compare(
+            currentPassword,
+            user.password
+        );
+
+        if (!passwordMatch) {
+            return res.status(401).json({
+                success: false,
+                message: 'Current password is incorrect'
+            });
+        }
+
         const hashedPassword = await bcrypt.hash(password, 10);
 
         await userModel.findByIdAndUpdate(
@@ -180,10 +392,25 @@ export const changePassword = async (req: Request, res: Response) => {
             { new: true }
         );
 
-        return res
-            .status(200)
-            .json({ success: true, message: 'Password updated successfully' });
+        // Sign out every device that knew the old password, then give this
+        // device a fresh session so the user stays logged in here
+        await revokeUserSessions(user.id);
+        const tokens = await createSession(user.id, req);
+        setAuthCookies(res, tokens);
+
+        return res.status(200).json({
+            success: true,
+            token: tokens.accessToken,
+            refreshToken: tokens.refreshToken,
+            message: 'Password updated successfully'
+        });
     } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
         console.error('Error during changing password:', error);
         return res.status(500).json({
             success: false,
@@ -193,26 +420,235 @@ export const changePassword = async (req: Request, res: Response) => {
     }
 };
 
-export const deleteAccount = async (req: Request, res: Response) => {
+// let accounts created through Google add a password login
+export const setPassword = async (req: Request, res: Response) => {
     try {
-        const usedId = req.user?.id;
+        const userId = req.user?.id;
+        const { password } = setPasswordValidation.parse(req.body);
+
+        const user = await userModel.findById(userId);
+        if (!user) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'User not found' });
+        }
 
-        const user = await userModel.findById(usedId);
+        if (user.password) {
+            return res.status(400).json({
+                success: false,
+                message:
+                    'Your account already has a password. Use change password instead.'
+            });
+        }
+
+        const hashedPassword = await bcrypt.hash(password, 10);
+
+        await userModel.findByIdAndUpdate(userId, { password: hashedPassword });
+
+        return res
+            .status(200)
+            .json({ success: true, message: 'Password set successfully' });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error('Error during setting password:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to set password',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+export const verifyEmail = async (req: Request, res: Response) => {
+    try {
+        const { token } = verifyEmailValidation.parse(req.body);
+
+        const userId = await consumeOneTimeToken('verify-email', token);
+
+        if (!userId) {
+            return res.status(400).json({
+                success: false,
+                message: 'Verification link is invalid or has expired'
+            });
+        }
+
+        const user = await userModel.findByIdAndUpdate(
+            userId,
+            { isEmailVerified: true },
+            { new: true }
+        );
+
+        if (!user) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'User not found' });
+        }
+
+        return res
+            .status(200)
+            .json({ success: true, message: 'Email verified successfully' });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error('Error during email verification:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to verify email',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+export const resendVerificationEmail = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+
+        const user = await userModel.findById(userId);
+        if (!user) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'User not found' });
+        }
+
+        if (user.isEmailVerified) {
+            return res.status(400).json({
+                success: false,
+                message: 'Your email is already verified'
+            });
+        }
+
+        await sendVerificationEmail(user);
+
+        return res
+            .status(200)
+            .json({ success: true, message: 'Verification email sent' });
+    } catch (error) {
+        console.error('Error during resending verification email:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to send verification email',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+export const forgotPassword = async (req: Request, res: Response) => {
+    try {
+        const { email } = forgotPasswordValidation.parse(req.body);
+
+        const user = await userModel.findOne({ email });
+
+        // A failed send is only logged, so the answer stays the same
+        // whether or not the email is registered
+        if (user) {
+            await sendPasswordResetEmail(user).catch((error) =>
+                console.error('Failed to send password reset email:', error)
+            );
+        }
+
+        return res.status(200).json({
+            success: true,
+            message:
+                'If an account exists for this email, a password reset link has been sent.'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error('Error during forgot password:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to send password reset email',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+export const resetPassword = async (req: Request, res: Response) => {
+    try {
+        const { token, password } = resetPasswordValidation.parse(req.body);
+
+        const userId = await consumeOneTimeToken('reset-password', token);
+
+        if (!userId) {
+            return res.status(400).json({
+                success: false,
+                message: 'Reset link is invalid or has expired'
+            });
+        }
+
+        const hashedPassword = await bcrypt.hash(password, 10);
+
+        // Following the emailed link also proves ownership of the address
+        const user = await userModel.findByIdAndUpdate(
+            userId,
+            { password: hashedPassword, isEmailVerified: true },
+            { new: true }
+        );
 
         if (!user) {
             return res
                 .status(404)
                 .json({ success: false, message: 'User not found' });
-        };
+        }
+
+        // Log out every device that might have been using the old password
+        await revokeUserSessions(userId);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Password reset successfully. Please log in again.'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error('Error during password reset:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to reset password',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+export const deleteAccount = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
 
-        // delete user details
-        await userModel.findByIdAndDelete(usedId);
+        const user = await userModel.findById(userId);
 
-        // delete post of user
-        await postModel.deleteMany({ author: usedId });
+        if (!user) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'User not found' });
+        }
 
-        return res.status(200).json({ success: true, message: 'Account deleted successfully' });
+        // The account and everything in it is purged once the grace period
+        // is over, logging back in before then cancels the deletion
+        const deletionScheduledAt = await scheduleAccountDeletion(user.id);
+        clearAuthCookies(res);
 
+        return res.status(200).json({
+            success: true,
+            deletionScheduledAt,
+            message: `Your account will be deleted on ${deletionScheduledAt.toDateString()}. Log in again before then to cancel.`
+        });
     } catch (error) {
         console.error('Error during deleting account:', error);
         return res.status(500).json({
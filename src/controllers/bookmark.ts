@@ -0,0 +1,154 @@
+import { ZodError } from 'zod';
+import mongoose from 'mongoose';
+import { Request, Response } from 'express';
+import postModel from '../models/post.model.js';
+import bookmarkModel from '../models/bookmark.model.js';
+import {
+    authoredBy,
+    isPostVisibleTo,
+    publishedFilter
+} from '../utils/postLifecycle.js';
+import { presentPosts } from '../utils/postPresenter.js';
+import { afterCursor, decodeCursor, toPage } from '../utils/pagination.js';
+import { paginationValidation } from '../validations/pagination.validation.js';
+
+// the logged-in user's bookmarks, most recently saved first
+export const getBookmarks = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return res.status(401).json({
+                success: false,
+                message: 'You are not authenticated. Please Signin'
+            });
+        }
+
+        const { cursor, limit } = paginationValidation.parse(req.query);
+        const after = cursor ? decodeCursor(cursor) : null;
+
+        if (cursor && !after) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid cursor' });
+        }
+
+        const bookmarks = await bookmarkModel
+            .find({ user: userId, ...afterCursor(after) })
+            .sort({ createdAt: -1, _id: -1 })
+            .limit(limit + 1)
+            .select('post createdAt');
+
+        const page = toPage(bookmarks, limit);
+
+        // Posts unpublished since they were saved are left out
+        const posts = await postModel
+            .find({
+                _id: { $in: page.items.map((bookmark) => bookmark.post) },
+                $or: [publishedFilter, ...authoredBy(userId).$or]
+            })
+            .populate('author', 'username profilePicture fullname')
+            .populate('category', 'name');
+
+        const postsById = new Map(posts.map((post) => [post.id, post]));
+
+        return res.status(200).json({
+            success: true,
+            data: await presentPosts(
+                page.items.flatMap((bookmark) => {
+                    const post = postsById.get(String(bookmark.post));
+                    return post ? [post] : [];
+                }),
+                userId
+            ),
+            nextCursor: page.nextCursor,
+            message: 'Bookmarks retrieved successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get bookmarks',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// save a post for later
+export const addBookmark = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        const postId = req.params.postId;
+
+        if (!mongoose.Types.ObjectId.isValid(postId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid post ID' });
+        }
+
+        const post = await postModel
+            .findById(postId)
+            .select('status author coAuthors');
+
+        if (!post || !isPostVisibleTo(post, userId)) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Post not found' });
+        }
+
+        // Saving a post twice keeps the first bookmark
+        await bookmarkModel.updateOne(
+            { user: userId, post: postId },
+            { $setOnInsert: { user: userId, post: postId } },
+            { upsert: true }
+        );
+
+        return res.status(200).json({
+            success: true,
+            bookmarked: true,
+            message: 'Post bookmarked successfully'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to bookmark post',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// remove a post from the bookmarks
+export const removeBookmark = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        const postId = req.params.postId;
+
+        if (!mongoose.Types.ObjectId.isValid(postId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid post ID' });
+        }
+
+        await bookmarkModel.deleteOne({ user: userId, post: postId });
+
+        return res.status(200).json({
+            success: true,
+            bookmarked: false,
+            message: 'Bookmark removed successfully'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to remove bookmark',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
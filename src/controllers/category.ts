@@ -0,0 +1,323 @@
+import { ZodError } from 'zod';
+import { Request, Response } from 'express';
+import postModel from '../models/post.model.js';
+import categoryModel from '../models/category.model.js';
+import {
+    findCategory,
+    syncCategoryCounts,
+    withUniqueCategorySlug,
+    wouldCreateCycle
+} from '../utils/categories.js';
+import { isDuplicateKeyError } from '../utils/dbErrors.js';
+import {
+    CATEGORY_POSTS,
+    invalidateListings,
+    invalidatePostListings
+} from '../utils/postCache.js';
+import { queueRankingUpdate } from '../utils/rankings.js';
+import {
+    createCategoryValidation,
+    updateCategoryValidation,
+    mergeCategoryValidation
+} from '../validations/category.validation.js';
+
+// all categories, with their parent so clients can build the tree
+export const getCategories = async (req: Request, res: Response) => {
+    try {
+        const categories = await categoryModel
+            .find()
+            .sort({ name: 1 })
+            .select('name slug description parent postCount');
+
+        return res.status(200).json({ success: true, categories });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get categories',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// a category by ID or slug, with its parent and subcategories
+export const getCategory = async (req: Request, res: Response) => {
+    try {
+        const category = await findCategory(req.params.category)
+            .select('name slug description parent postCount')
+            .populate('parent', 'name slug');
+
+        if (!category) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Category not found' });
+        }
+
+        const children = await categoryModel
+            .find({ parent: category._id })
+            .sort({ name: 1 })
+            .select('name slug description postCount');
+
+        return res.status(200).json({ success: true, category, children });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get category',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// create a category
+export const createCategory = async (req: Request, res: Response) => {
+    try {
+        const { name, description, parent } = createCategoryValidation.parse(
+            req.body
+        );
+
+        if (await categoryModel.exists({ name })) {
+            return res.status(409).json({
+                success: false,
+                message: 'A category with this name already exists'
+            });
+        }
+
+        if (parent && !(await categoryModel.exists({ _id: parent }))) {
+            return res.status(400).json({
+                success: false,
+                message: 'Parent category does not exist'
+            });
+        }
+
+        const category = await withUniqueCategorySlug(name, (slug) =>
+            categoryModel.create({
+                name,
+                slug,
+                description,
+                parent: parent || null
+            })
+        );
+
+        return res.status(201).json({
+            success: true,
+            category,
+            message: 'Category created successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        // Another category took the name since it was checked
+        if (isDuplicateKeyError(error, 'name')) {
+            return res.status(409).json({
+                success: false,
+                message: 'A category with this name already exists'
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to create category',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// update the name, description or parent of a category
+export const updateCategory = async (req: Request, res: Response) => {
+    try {
+        const { name, description, parent } = updateCategoryValidation.parse(
+            req.body
+        );
+
+        const category = await findCategory(req.params.category);
+
+        if (!category) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Category not found' });
+        }
+
+        if (
+            name &&
+            (await categoryModel.exists({
+                name,
+                _id: { $ne: category._id }
+            }))
+        ) {
+            return res.status(409).json({
+                success: false,
+                message: 'A category with this name already exists'
+            });
+        }
+
+        if (parent) {
+            if (!(await categoryModel.exists({ _id: parent }))) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Parent category does not exist'
+                });
+            }
+
+            if (await wouldCreateCycle(category.id, parent)) {
+                return res.status(400).json({
+                    success: false,
+                    message:
+                        'A category cannot be moved under itself or one of its subcategories'
+                });
+            }
+        }
+
+        if (description !== undefined) category.description = description;
+        if (parent !== undefined) category.set('parent', parent);
+
+        if (name !== undefined) {
+            category.name = name;
+            await withUniqueCategorySlug(
+                name,
+                (slug) => {
+                    category.slug = slug;
+                    return category.save();
+                },
+                category._id
+            );
+        } else {
+            await category.save();
+        }
+
+        return res.status(200).json({
+            success: true,
+            category,
+            message: 'Category updated successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        // Another category took the name since it was checked
+        if (isDuplicateKeyError(error, 'name')) {
+            return res.status(409).json({
+                success: false,
+                message: 'A category with this name already exists'
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to update category',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// delete a category that has no posts or subcategories left
+export const deleteCategory = async (req: Request, res: Response) => {
+    try {
+        const category = await findCategory(req.params.category);
+
+        if (!category) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Category not found' });
+        }
+
+        const [hasPosts, hasChildren] = await Promise.all([
+            postModel.exists({ category: category._id }),
+            categoryModel.exists({ parent: category._id })
+        ]);
+
+        if (hasPosts || hasChildren) {
+            return res.status(409).json({
+                success: false,
+                message:
+                    'Category still has posts or subcategories. Merge it into another category instead.'
+            });
+        }
+
+        await categoryModel.findByIdAndDelete(category._id);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Category deleted successfully'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to delete category',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// move the posts and subcategories of a category into another one and
+// delete it
+export const mergeCategory = async (req: Request, res: Response) => {
+    try {
+        const { into } = mergeCategoryValidation.parse(req.body);
+
+        const [source, target] = await Promise.all([
+            findCategory(req.params.category),
+            categoryModel.findById(into)
+        ]);
+
+        if (!source || !target) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Category not found' });
+        }
+
+        if (await wouldCreateCycle(source.id, target.id)) {
+            return res.status(400).json({
+                success: false,
+                message:
+                    'A category cannot be merged into itself or one of its subcategories'
+            });
+        }
+
+        const posts = await postModel
+            .find({ category: source._id })
+            .select('author coAuthors category tags');
+
+        await postModel.updateMany(
+            { category: source._id },
+            { category: target._id }
+        );
+        await categoryModel.updateMany(
+            { parent: source._id },
+            { parent: target._id }
+        );
+        await categoryModel.findByIdAndDelete(source._id);
+
+        await syncCategoryCounts([target._id]);
+        await invalidatePostListings(...posts);
+        await invalidateListings([CATEGORY_POSTS(target.id)]);
+        await queueRankingUpdate(posts.map((post) => post._id));
+
+        return res.status(200).json({
+            success: true,
+            movedPosts: posts.length,
+            message: `Category merged into ${target.name}`
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to merge categories',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
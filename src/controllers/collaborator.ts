@@ -0,0 +1,313 @@
+import { ZodError } from 'zod';
+import mongoose from 'mongoose';
+import { Request, Response } from 'express';
+import userModel from '../models/user.model.js';
+import postModel from '../models/post.model.js';
+import collaboratorInvitationModel from '../models/collaboratorInvitation.model.js';
+import { getActor, policy } from '../utils/policy.js';
+import { isCoAuthor } from '../utils/collaborators.js';
+import { isDuplicateKeyError } from '../utils/dbErrors.js';
+import { invalidatePostListings } from '../utils/postCache.js';
+import { inviteCollaboratorValidation } from '../validations/collaborator.validation.js';
+
+// invite a user to co-author a post, for the post's author
+export const inviteCollaborator = async (req: Request, res: Response) => {
+    try {
+        const postId = req.params.id;
+
+        if (!mongoose.Types.ObjectId.isValid(postId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid post ID' });
+        }
+
+        const { user: inviteeId } = inviteCollaboratorValidation.parse(
+            req.body
+        );
+
+        const post = await postModel.findById(postId);
+        if (!post) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Post not found' });
+        }
+
+        const actor = await getActor(req);
+        if (!actor || !policy.post.manageCollaborators(actor, post)) {
+            return res.status(403).json({
+                success: false,
+                message: 'Only the author can invite collaborators'
+            });
+        }
+
+        if (post.kind === 'repost') {
+            return res.status(400).json({
+                success: false,
+                message: 'Reposts cannot have co-authors'
+            });
+        }
+
+        if (String(post.author) === inviteeId) {
+            return res.status(400).json({
+                success: false,
+                message: 'You cannot invite yourself'
+            });
+        }
+
+        const invitee = await userModel.exists({
+            _id: inviteeId,
+            deletionScheduledAt: { $exists: false }
+        });
+        if (!invitee) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'User not found' });
+        }
+
+        if (isCoAuthor(post, inviteeId)) {
+            return res.status(409).json({
+                success: false,
+                message: 'User is already a co-author of this post'
+            });
+        }
+
+        if (
+            await collaboratorInvitationModel.exists({
+                post: post._id,
+                invitee: inviteeId,
+                status: 'pending'
+            })
+        ) {
+            return res.status(409).json({
+                success: false,
+                message: 'User has already been invited'
+            });
+        }
+
+        // The same invitation sent twice at once is stopped by the index
+        const invitation = await collaboratorInvitationModel
+            .create({
+                post: post._id,
+                inviter: actor.id,
+                invitee: inviteeId
+            })
+            .catch((error) => {
+                if (isDuplicateKeyError(error)) return null;
+                throw error;
+            });
+
+        if (!invitation) {
+            return res.status(409).json({
+                success: false,
+                message: 'User has already been invited'
+            });
+        }
+
+        return res.status(201).json({
+            success: true,
+            data: invitation,
+            message: 'Invitation sent successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to invite collaborator',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// remove a co-author or withdraw their invitation. The author can remove
+// anyone, co-authors can only remove themselves.
+export const removeCollaborator = async (req: Request, res: Response) => {
+    try {
+        const { id: postId, userId: collaboratorId } = req.params;
+
+        if (
+            !mongoose.Types.ObjectId.isValid(postId) ||
+            !mongoose.Types.ObjectId.isValid(collaboratorId)
+        ) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid ID' });
+        }
+
+        const post = await postModel.findById(postId);
+        if (!post) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Post not found' });
+        }
+
+        const actor = await getActor(req);
+        if (
+            !actor ||
+            (!policy.post.manageCollaborators(actor, post) &&
+                actor.id !== collaboratorId)
+        ) {
+            return res.status(403).json({
+                success: false,
+                message: 'You are not authorized to remove this collaborator'
+            });
+        }
+
+        if (!isCoAuthor(post, collaboratorId)) {
+            const withdrawn = await collaboratorInvitationModel.deleteOne({
+                post: post._id,
+                invitee: collaboratorId,
+                status: 'pending'
+            });
+
+            if (withdrawn.deletedCount === 0) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'User is not a collaborator on this post'
+                });
+            }
+
+            return res.status(200).json({
+                success: true,
+                message: 'Invitation withdrawn successfully'
+            });
+        }
+
+        await postModel.updateOne(
+            { _id: post._id },
+            { $pull: { coAuthors: collaboratorId } }
+        );
+        // Once removed, so no listing is cached again with the post. The
+        // post as loaded still lists the removed co-author, whose listings
+        // are refreshed too.
+        await invalidatePostListings(post);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Co-author removed successfully'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to remove collaborator',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// list the current user's pending invitations
+export const getMyInvitations = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+
+        const invitations = await collaboratorInvitationModel
+            .find({ invitee: userId, status: 'pending' })
+            .sort({ createdAt: -1 })
+            .populate('post', 'title slug status')
+            .populate('inviter', 'username profilePicture fullname');
+
+        return res.status(200).json({
+            success: true,
+            data: invitations,
+            message: 'Invitations retrieved successfully'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get invitations',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+const respondToInvitation = async (
+    req: Request,
+    res: Response,
+    status: 'accepted' | 'declined'
+) => {
+    const userId = req.user?.id;
+    const invitationId = req.params.id;
+
+    if (!mongoose.Types.ObjectId.isValid(invitationId)) {
+        return res
+            .status(400)
+            .json({ success: false, message: 'Invalid invitation ID' });
+    }
+
+    const invitation = await collaboratorInvitationModel.findOneAndUpdate(
+        { _id: invitationId, invitee: userId, status: 'pending' },
+        { status, respondedAt: new Date() },
+        { new: true }
+    );
+
+    if (!invitation) {
+        return res
+            .status(404)
+            .json({ success: false, message: 'Invitation not found' });
+    }
+
+    if (status === 'declined') {
+        return res.status(200).json({
+            success: true,
+            data: invitation,
+            message: 'Invitation declined'
+        });
+    }
+
+    const post = await postModel
+        .findByIdAndUpdate(
+            invitation.post,
+            { $addToSet: { coAuthors: userId } },
+            { new: true }
+        )
+        .select('author coAuthors category tags title slug');
+
+    if (!post) {
+        return res
+            .status(404)
+            .json({ success: false, message: 'Post not found' });
+    }
+
+    await invalidatePostListings(post);
+
+    return res.status(200).json({
+        success: true,
+        data: { invitation, post },
+        message: 'Invitation accepted, you are now a co-author'
+    });
+};
+
+// accept an invitation to co-author a post
+export const acceptInvitation = async (req: Request, res: Response) => {
+    try {
+        return await respondToInvitation(req, res, 'accepted');
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to accept invitation',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// decline an invitation to co-author a post
+export const declineInvitation = async (req: Request, res: Response) => {
+    try {
+        return await respondToInvitation(req, res, 'declined');
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to decline invitation',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -3,6 +3,9 @@ import { Request, Response } from 'express';
 import userModel from '../models/user.model.js';
 import postModel from '../models/post.model.js';
 import commentModel from '../models/comment.model.js';
+import { getActor, policy } from '../utils/policy.js';
+import { isPostVisibleTo } from '../utils/postLifecycle.js';
+import { queueRankingUpdate } from '../utils/rankings.js';
 import { commentValidation } from '../validations/comment.validation.js';
 
 export const createComment = async (req: Request, res: Response) => {
@@ -16,7 +19,7 @@ export const createComment = async (req: Request, res: Response) => {
         const post = await postModel.findById(postId);
         const user = await userModel.findById(authorId);
 
-        if (!post || !user) {
+        if (!post || !user || !isPostVisibleTo(post, authorId)) {
             return res.status(404).json({
                 success: false,
                 message: 'Post or user not found'
@@ -28,6 +31,7 @@ export const createComment = async (req: Request, res: Response) => {
             author: authorId,
             content
         });
+        await queueRankingUpdate([post._id]);
 
         return res.status(201).json({
             success: true,
@@ -98,7 +102,6 @@ export const getComments = async (req: Request, res: Response) => {
 export const updateComment = async (req: Request, res: Response) => {
     try {
         const commentId = req.params.commentId;
-        const userId = req.user?.id;
         const { content } = req.body;
 
         if (!content) {
@@ -116,7 +119,8 @@ export const updateComment = async (req: Request, res: Response) => {
                 .json({ success: false, message: 'Comment not found' });
         }
 
-        if (comment.author.toString() != userId) {
+        const actor = await getActor(req);
+        if (!actor || !policy.comment.update(actor, comment)) {
             return res.status(403).json({
                 success: false,
                 message: 'You are not authorized to update this comment'
@@ -161,7 +165,6 @@ export const updateComment = async (req: Request, res: Response) => {
 export const deleteComments = async (req: Request, res: Response) => {
     try {
         const commentId = req.params.commentId;
-        const userId = req.user?.id;
 
         const comment = await commentModel.findById(commentId);
         if (!comment) {
@@ -170,7 +173,8 @@ export const deleteComments = async (req: Request, res: Response) => {
                 .json({ success: false, message: 'Comment not found' });
         }
 
-        if (comment.author.toString() != userId) {
+        const actor = await getActor(req);
+        if (!actor || !policy.comment.delete(actor, comment)) {
             return res.status(403).json({
                 success: false,
                 message: 'You are not authorized to delete this comment'
@@ -184,6 +188,7 @@ export const deleteComments = async (req: Request, res: Response) => {
                 .status(404)
                 .send({ success: false, message: 'Comment not found' });
         }
+        await queueRankingUpdate([deletedComment.post]);
 
         return res.status(200).json({
             success: true,
@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Request, Response } from 'express';
+import dataExportModel from '../models/dataExport.model.js';
+import {
+    generateDownloadToken,
+    hashDownloadToken,
+    processDataExport
+} from '../utils/dataExport.js';
+
+const DOWNLOAD_URL = (exportId: string, token: string) =>
+    `/api/v1/profile/export/${exportId}/download?token=${token}`;
+
+// request an archive of the current user's data, built in the background
+export const requestDataExport = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+
+        const inProgress = await dataExportModel.exists({
+            user: userId,
+            status: { $in: ['pending', 'processing'] }
+        });
+
+        if (inProgress) {
+            return res.status(409).json({
+                success: false,
+                message: 'An export is already being prepared'
+            });
+        }
+
+        const { token, tokenHash } = generateDownloadToken();
+
+        const dataExport = await dataExportModel.create({
+            user: userId,
+            downloadTokenHash: tokenHash
+        });
+
+        // The export job picks it up if this server goes away before finishing
+        processDataExport(dataExport.id).catch((error) => console.error(error));
+
+        return res.status(202).json({
+            success: true,
+            export: {
+                id: dataExport._id,
+                status: dataExport.status
+            },
+            downloadUrl: DOWNLOAD_URL(dataExport.id, token),
+            message:
+                'Your export is being prepared. Keep the download link, it will not be shown again.'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to request data export',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// check whether an export is ready
+export const getDataExport = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        const exportId = req.params.id;
+
+        if (!mongoose.Types.ObjectId.isValid(exportId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid export ID' });
+        }
+
+        const dataExport = await dataExportModel
+            .findOne({ _id: exportId, user: userId })
+            .select('status expiresAt error createdAt');
+
+        if (!dataExport) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Export not found' });
+        }
+
+        return res.status(200).json({ success: true, export: dataExport });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get data export',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// download a finished export, authorised by the token in the link
+export const downloadDataExport = async (req: Request, res: Response) => {
+    try {
+        const exportId = req.params.id;
+        const token = req.query.token;
+
+        if (
+            !mongoose.Types.ObjectId.isValid(exportId) ||
+            typeof token !== 'string'
+        ) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid download link' });
+        }
+
+        const dataExport = await dataExportModel.findById(exportId);
+
+        const isValidToken =
+            dataExport?.downloadTokenHash &&
+            crypto.timingSafeEqual(
+                Buffer.from(dataExport.downloadTokenHash),
+                Buffer.from(hashDownloadToken(token))
+            );
+
+        if (!dataExport || !isValidToken) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Export not found' });
+        }
+
+        if (
+            dataExport.status !== 'ready' ||
+            !dataExport.filePath ||
+            !dataExport.expiresAt
+        ) {
+            return res.status(409).json({
+                success: false,
+                message: 'Export is not ready yet'
+            });
+        }
+
+        if (dataExport.expiresAt <= new Date()) {
+            return res.status(410).json({
+                success: false,
+                message: 'Download link has expired'
+            });
+        }
+
+        return res.download(
+            dataExport.filePath,
+            `softcore-export-${dataExport.createdAt.toISOString().slice(0, 10)}.zip`
+        );
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to download data export',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -0,0 +1,51 @@
+import { ZodError } from 'zod';
+import { Request, Response } from 'express';
+import { getFeedPage } from '../utils/feed.js';
+import { presentPosts } from '../utils/postPresenter.js';
+import { decodeCursor } from '../utils/pagination.js';
+import { paginationValidation } from '../validations/pagination.validation.js';
+
+// posts from the people the logged-in user follows, one page at a time
+export const getFeed = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return res.status(401).json({
+                success: false,
+                message: 'You are not authenticated. Please Signin'
+            });
+        }
+
+        const { cursor, limit } = paginationValidation.parse(req.query);
+        const after = cursor ? decodeCursor(cursor) : null;
+
+        if (cursor && !after) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid cursor' });
+        }
+
+        const page = await getFeedPage(userId, after, limit);
+
+        return res.status(200).json({
+            success: true,
+            data: await presentPosts(page.items, req.user?.id),
+            nextCursor: page.nextCursor,
+            message: 'Feed retrieved successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get feed',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import userModel from '../models/user.model.js';
 import mongoose, { Types } from 'mongoose';
+import { backfillFeed, pruneFeed } from '../utils/feed.js';
+import { recordAuthorActivity } from '../utils/analytics.js';
 
 export const followUser = async (req: Request, res: Response) => {
     try {
@@ -55,6 +57,9 @@ export const followUser = async (req: Request, res: Response) => {
         // Save both users in parallel
         await Promise.all([user.save(), followUser.save()]);
 
+        await backfillFeed(userId, followUserId);
+        recordAuthorActivity(followUserId, { followersGained: 1 }).catch((error) => console.error(error));
+
         res.status(200).json({
             success: true,
             message: 'Successfully followed the user',
@@ -123,6 +128,9 @@ export const unfollowUser = async (req: Request, res: Response) => {
         // Save both users
         await Promise.all([user.save(), followUser.save()]);
 
+        await pruneFeed(user.id, unfollowUserId);
+        recordAuthorActivity(unfollowUserId, { followersLost: 1 }).catch((error) => console.error(error));
+
         res.status(200).json({ success: true, message: 'Successfully unfollowed the user' });
     } catch (error) {
         console.error(error);
@@ -1,9 +1,11 @@
 import mongoose from 'mongoose';
-import { client } from '../lib/redis.js';
 import { Request, Response } from 'express';
 import postModel from '../models/post.model.js';
-
-const POSTS_CACHE_KEY = (userId: string) => `posts:${userId}`;
+import { isPostVisibleTo } from '../utils/postLifecycle.js';
+import { invalidatePostListings } from '../utils/postCache.js';
+import { recordPostActivity } from '../utils/analytics.js';
+import { queueRankingUpdate } from '../utils/rankings.js';
+import { presentPost } from '../utils/postPresenter.js';
 
 export const like = async (req: Request, res: Response) => {
     try {
@@ -24,7 +26,7 @@ export const like = async (req: Request, res: Response) => {
         const userObjectId = new mongoose.Types.ObjectId(userId);
         const post = await postModel.findById(postId);
 
-        if (!post) {
+        if (!post || !isPostVisibleTo(post, userId)) {
             return res.status(404).json({ error: 'Post not found' });
         }
 
@@ -38,22 +40,29 @@ export const like = async (req: Request, res: Response) => {
                     !new mongoose.Types.ObjectId(like).equals(userObjectId)
             );
             await post.save();
-            await client.del('posts:all');
-            await client.del(POSTS_CACHE_KEY(userId));
+            await invalidatePostListings(post);
+            await queueRankingUpdate([post._id]);
+            recordPostActivity(post, { likes: -1 }).catch((error) =>
+                console.error(error)
+            );
 
             return res.json({
                 success: true,
-                post,
+                post: await presentPost(post, userId),
                 totalLikes: post.likes.length,
                 message: 'Post unliked successfully'
             });
         } else {
             post.likes.push(userObjectId);
             await post.save();
-            await client.del('posts:all');
+            await invalidatePostListings(post);
+            await queueRankingUpdate([post._id]);
+            recordPostActivity(post, { likes: 1 }).catch((error) =>
+                console.error(error)
+            );
             return res.json({
                 success: true,
-                post,
+                post: await presentPost(post, userId),
                 totalLikes: post.likes.length,
                 message: 'Post liked successfully'
             });
@@ -0,0 +1,162 @@
+import passport from 'passport';
+import config from '../config/config.js';
+import userModel from '../models/user.model.js';
+import { NextFunction, Request, Response } from 'express';
+import { createSession, setAuthCookies } from '../utils/session.js';
+import { cancelAccountDeletion } from '../utils/accountDeletion.js';
+import { signChallengeToken } from '../utils/twoFactor.js';
+import {
+    clearOAuthNonce,
+    isAllowedRedirect,
+    signOAuthState,
+    verifyOAuthState
+} from '../utils/passport.js';
+
+const scope = ['profile', 'email'];
+
+// start Google sign in, optionally returning to an allowed frontend URL
+export const googleAuth = (req: Request, res: Response, next: NextFunction) => {
+    const redirect =
+        typeof req.query.redirect === 'string'
+            ? req.query.redirect
+            : config.OAUTH_REDIRECT_URLS[0];
+
+    if (!isAllowedRedirect(redirect)) {
+        return res.status(400).json({
+            success: false,
+            message: 'Redirect URL is not allowed'
+        });
+    }
+
+    passport.authenticate('google', {
+        scope,
+        session: false,
+        state: signOAuthState(res, redirect)
+    })(req, res, next);
+};
+
+// start linking Google to the logged-in account
+export const linkGoogle = (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user?.id;
+    const redirect =
+        typeof req.query.redirect === 'string'
+            ? req.query.redirect
+            : config.OAUTH_REDIRECT_URLS[0];
+
+    if (!userId) {
+        return res.status(401).json({
+            success: false,
+            message: 'You are not authenticated. Please Signin'
+        });
+    }
+
+    if (!isAllowedRedirect(redirect)) {
+        return res.status(400).json({
+            success: false,
+            message: 'Redirect URL is not allowed'
+        });
+    }
+
+    passport.authenticate('google', {
+        scope,
+        session: false,
+        state: signOAuthState(res, redirect, userId)
+    })(req, res, next);
+};
+
+export const googleCallback = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        const state = verifyOAuthState(req);
+        const redirectUrl = new URL(
+            state ? state.redirect : config.OAUTH_REDIRECT_URLS[0]
+        );
+
+        // The nonce is single use
+        clearOAuthNonce(res);
+
+        if (!userId) {
+            return res.status(401).json({
+                success: false,
+                message: 'Google authentication failed'
+            });
+        }
+
+        // Linking happens for an already logged-in user, no new session needed
+        if (state?.linkUserId) {
+            redirectUrl.searchParams.set('linked', 'true');
+            return res.redirect(redirectUrl.toString());
+        }
+
+        // Accounts with 2FA finish signin with a code first, as with a
+        // password: the frontend posts the challenge token and the code to
+        // /api/v1/auth/2fa/verify
+        if (await userModel.exists({ _id: userId, twoFactorEnabled: true })) {
+            redirectUrl.searchParams.set('twoFactorRequired', 'true');
+            redirectUrl.searchParams.set(
+                'challengeToken',
+                signChallengeToken(userId)
+            );
+            return res.redirect(redirectUrl.toString());
+        }
+
+        const tokens = await createSession(userId, req);
+        setAuthCookies(res, tokens);
+
+        // Logging in during the deletion grace period keeps the account
+        await cancelAccountDeletion(userId);
+
+        redirectUrl.searchParams.set('token', tokens.accessToken);
+        return res.redirect(redirectUrl.toString());
+    } catch (error) {
+        console.error('Error during google callback:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to sign in with Google',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// remove the Google login from the logged-in account
+export const unlinkGoogle = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+
+        const user = await userModel.findById(userId);
+        if (!user) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'User not found' });
+        }
+
+        if (!user.googleId) {
+            return res.status(400).json({
+                success: false,
+                message: 'Your account is not linked to Google'
+            });
+        }
+
+        // Keep at least one way to sign in
+        if (!user.password) {
+            return res.status(400).json({
+                success: false,
+                message:
+                    'Set a password before unlinking Google, otherwise you will not be able to sign in'
+            });
+        }
+
+        await userModel.findByIdAndUpdate(userId, { $unset: { googleId: 1 } });
+
+        return res
+            .status(200)
+            .json({ success: true, message: 'Google account unlinked' });
+    } catch (error) {
+        console.error('Error during unlinking google:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to unlink Google account',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -1,23 +1,35 @@
 import razorpay from '../utils/razorpay.js';
-import userModel from '../models/user.model.js';
 import crypto from 'crypto';
 import paymentModel from '../models/payment.model.js';
 import { Request, Response } from 'express';
 import config from '../config/config.js';
+import { client } from '../lib/redis.js';
+import { extendPremium } from '../utils/premium.js';
+import { isDuplicateKeyError } from '../utils/dbErrors.js';
 
-export const createOrder = async (req: Request, res: Response) => {
-    const { amount } = req.body;
+const PROFILE_CACHE_KEY = (userId: string) => `profile:${userId}`;
 
+// start a premium purchase. The price is set here, the order is kept to
+// check the payment against.
+export const createOrder = async (req: Request, res: Response) => {
     const options = {
-        amount: Number(amount * 100),
+        amount: config.PREMIUM_PRICE * 100,
         currency: 'INR',
         receipt: crypto.randomBytes(10).toString('hex')
     };
 
     try {
         const order = await razorpay.orders.create(options);
+
+        await paymentModel.create({
+            user: req.user?.id,
+            amount: options.amount,
+            currency: options.currency,
+            status: 'created',
+            razorpay_order_id: order.id
+        });
+
         res.status(200).json({ data: order });
-        console.log(order);
     } catch (error) {
         console.error(error);
         res.status(500).json({
@@ -27,7 +39,9 @@ export const createOrder = async (req: Request, res: Response) => {
     }
 };
 
+// confirm a payment of the user's order and extend their premium
 export const verifyOrder = async (req: Request, res: Response) => {
+    const userId = String(req.user?.id);
     const { razorpay_order_id, razorpay_payment_id, razorpay_signature } =
         req.body;
 
@@ -41,21 +55,72 @@ export const verifyOrder = async (req: Request, res: Response) => {
 
         const isAuthentic = expectedSign === razorpay_signature;
 
-        // Condition
-        if (isAuthentic) {
-            const payment = new paymentModel({
-                razorpay_order_id,
-                razorpay_payment_id,
-                razorpay_signature
-            });
+        if (!isAuthentic) {
+            return res
+                .status(400)
+                .json({ message: 'Invalid payment signature' });
+        }
 
-            // Save Payment
-            await payment.save();
+        const order = await paymentModel.findOne({
+            razorpay_order_id,
+            user: userId
+        });
 
-            res.json({
-                message: 'Payement Successfully'
+        if (!order) {
+            return res.status(404).json({ message: 'Order not found' });
+        }
+
+        // Only a captured payment of the price the order was created with
+        // unlocks premium
+        const paid = await razorpay.payments.fetch(razorpay_payment_id);
+        if (paid.status !== 'captured') {
+            return res
+                .status(400)
+                .json({ message: 'Payment has not been captured' });
+        }
+        if (
+            paid.order_id !== razorpay_order_id ||
+            Number(paid.amount) !== order.amount ||
+            paid.currency !== order.currency
+        ) {
+            return res
+                .status(400)
+                .json({ message: 'Payment does not match the order' });
+        }
+
+        // A payment unlocks premium once, and an order is paid once
+        const payment = await paymentModel
+            .findOneAndUpdate(
+                { _id: order._id, status: 'created' },
+                {
+                    status: 'paid',
+                    razorpay_payment_id,
+                    razorpay_signature,
+                    paidAt: new Date()
+                },
+                { new: true }
+            )
+            .catch((error) => {
+                if (isDuplicateKeyError(error, 'razorpay_payment_id')) {
+                    return null;
+                }
+                throw error;
             });
+
+        if (!payment) {
+            return res
+                .status(409)
+                .json({ message: 'Payment has already been used' });
         }
+
+        // Unlock members-only posts
+        const premiumUntil = await extendPremium(userId);
+        await client.del(PROFILE_CACHE_KEY(userId));
+
+        res.json({
+            message: 'Payement Successfully',
+            premiumUntil
+        });
     } catch (error) {
         console.error('Error updating premium status:', error);
         return res.status(500).json({ message: 'Internal server error' });
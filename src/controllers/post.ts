@@ -1,19 +1,49 @@
 import { ZodError } from 'zod';
 import mongoose from 'mongoose';
-import { client } from '../lib/redis.js';
 import { Request, Response } from 'express';
 import postModel from '../models/post.model.js';
-import categoryModel from '../models/category.model.js';
-import { uploadOnCloudinary } from '../utils/cloudinary.js';
+import { getActor, policy } from '../utils/policy.js';
+import {
+    coverImage,
+    MAX_ATTACHMENTS,
+    postMedia,
+    removeAttachments,
+    uploadAttachments
+} from '../utils/attachments.js';
+import {
+    authoredBy,
+    isPublished,
+    publishedFilter
+} from '../utils/postLifecycle.js';
+import postRevisionModel from '../models/postRevision.model.js';
+import postViewStatModel from '../models/postViewStat.model.js';
+import { fanOutPost } from '../utils/feed.js';
+import { getSeriesNavigation, removePostsFromSeries } from '../utils/series.js';
+import { getViewerId, parseReferrer, recordView } from '../utils/views.js';
+import { removeRepostsOf, syncRepostCounts } from '../utils/reposts.js';
+import { removePostsFromBookmarks } from '../utils/bookmarks.js';
+import { removePostInvitations } from '../utils/collaborators.js';
+import { presentPost, presentPosts } from '../utils/postPresenter.js';
+import { syncTagCounts } from '../utils/tags.js';
+import { queueRankingUpdate } from '../utils/rankings.js';
+import { findCategory, syncCategoryCounts } from '../utils/categories.js';
+import { ensureInitialRevision, saveRevision } from '../utils/postRevision.js';
+import { afterCursor, decodeCursor, toPage } from '../utils/pagination.js';
+import { paginationValidation } from '../validations/pagination.validation.js';
+import {
+    ALL_POSTS,
+    CATEGORY_POSTS,
+    getCachedPage,
+    invalidatePostListings
+} from '../utils/postCache.js';
+import { buildContentFields, withUniqueSlug } from '../utils/postContent.js';
 import {
     createPostValidation,
-    updatePostValidation
+    updatePostValidation,
+    publishPostValidation,
+    unpublishPostValidation
 } from '../validations/post.validation.js';
 
-const CACHE_KEY = 'posts:all';
-const PROFILE_CACHE_KEY = (userId: string) => `profile:${userId}`;
-const POSTS_CACHE_KEY = (userId: string) => `posts:${userId}`;
-
 // create a new post
 export const createPost = async (req: Request, res: Response) => {
     try {
@@ -28,71 +58,94 @@ export const createPost = async (req: Request, res: Response) => {
 
         // validate the request body using Zod
         const parsedData = createPostValidation.parse(req.body);
-        const { content, tags, category } = parsedData;
-
-        // Handle file upload if present
-        const image = req.file ? req.file.path : null;
-
-        // Check if the category already exists, if not, create it
-        let categoryName = await categoryModel.findOne({ name: category });
-        if (!categoryName) {
-            categoryName = new categoryModel({ name: category });
-            await categoryName.save();
-        }
-
-        let imageUrl = null;
-
-        if (req.file) {
-            try {
-                const uploadedImage = await uploadOnCloudinary(req.file.path);
-                imageUrl = uploadedImage ? uploadedImage.secure_url : null;
-            } catch (uploadError) {
-                return res.status(500).json({
-                    success: false,
-                    message: 'Image upload to Cloudinary failed',
-                    error:
-                        uploadError instanceof Error
-                            ? uploadError.message
-                            : 'Unknown error'
-                });
-            }
-        } else {
-            console.log('No file received'); // Log if no file is received
+        const {
+            title,
+            content,
+            tags,
+            category,
+            publishAt,
+            premium,
+            attachmentDetails
+        } = parsedData;
+        const status =
+            parsedData.status ?? (publishAt ? 'scheduled' : 'published');
+
+        if (status === 'scheduled' && !publishAt) {
+            return res.status(400).json({
+                success: false,
+                message: 'publishAt is required to schedule a post'
+            });
+        }
+
+        // Categories are managed by admins, posts can only pick an existing one
+        const postCategory = category ? await findCategory(category) : null;
+        if (category && !postCategory) {
+            return res.status(400).json({
+                success: false,
+                message: 'Category does not exist'
+            });
+        }
+
+        // Handle file uploads if present
+        const files = (req.files as Express.Multer.File[] | undefined) || [];
+        const attachments = await uploadAttachments(files, attachmentDetails);
+
+        if (!attachments) {
+            return res.status(500).json({
+                success: false,
+                message: 'Attachment upload to Cloudinary failed'
+            });
         }
 
         // Create a new post
-        const newPost = await postModel.create({
-            content,
-            author,
-            image: imageUrl,
-            tags,
-            category: categoryName._id
+        const newPost = await withUniqueSlug(title, (slug) =>
+            postModel.create({
+                title,
+                slug,
+                content,
+                ...buildContentFields(content),
+                author,
+                image: coverImage(attachments),
+                attachments,
+                tags,
+                category: postCategory?._id,
+                premium,
+                status,
+                publishAt: status === 'scheduled' ? publishAt : undefined,
+                publishedAt: status === 'published' ? new Date() : undefined
+            })
+        ).catch(async (error) => {
+            await removeAttachments(attachments);
+            throw error;
         });
 
-        const populatedPost = await postModel
-            .findById(newPost._id)
-            .populate('author', 'username profilePicture fullname')
-            .populate('category', 'name');
+        await saveRevision(newPost, author);
+        await syncTagCounts(newPost.tags);
+        await syncCategoryCounts([newPost.category]);
+        await invalidatePostListings(newPost);
 
-        const cachedPosts = await client.get(CACHE_KEY);
-        if (cachedPosts) {
-            const posts = JSON.parse(cachedPosts);
-            posts.unshift(populatedPost); // Add new post at the beginning
-            await client.set(CACHE_KEY, JSON.stringify(posts));
+        // Followers' timelines are updated in the background
+        if (status === 'published') {
+            fanOutPost(newPost).catch((error) => console.error(error));
         }
 
-        await client.del(PROFILE_CACHE_KEY(author));
-        await client.del(POSTS_CACHE_KEY(author));
-
         // Respond with the created post details
         return res.status(201).json({
             success: true,
             data: {
+                title: newPost.title,
+                slug: newPost.slug,
                 content: newPost.content,
+                contentHtml: newPost.contentHtml,
+                excerpt: newPost.excerpt,
+                readingTime: newPost.readingTime,
                 author: newPost.author,
-                image: imageUrl,
+                image: newPost.image,
+                attachments: newPost.attachments,
                 tags: newPost.tags,
-                category: categoryName.name
+                category: postCategory?.name,
+                status: newPost.status,
+                publishAt: newPost.publishAt
             },
             message: 'Post created successfully'
         });
@@ -114,41 +167,53 @@ export const createPost = async (req: Request, res: Response) => {
     }
 };
 
-// get all post
+// get all posts, one page at a time
 export const getAllPosts = async (req: Request, res: Response) => {
-    const cacheTTL = 43200;
-
     try {
-        const getDataFromCache = await client.get(CACHE_KEY);
+        const { cursor, limit } = paginationValidation.parse(req.query);
+        const after = cursor ? decodeCursor(cursor) : null;
 
-        if (getDataFromCache) {
-            return res.status(200).json({
-                success: true,
-                data: JSON.parse(getDataFromCache),
-                message: 'All posts retrieved successfully'
-            });
+        if (cursor && !after) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid cursor' });
         }
 
-        const allPosts = await postModel
-            .find()
-            .sort({ createdAt: -1 })
-            .populate({
-                path: 'author',
-                select: 'username profilePicture fullname',
-                model: 'User'
-            })
-            .populate('category', 'name');
-
-        await client.set(CACHE_KEY, JSON.stringify(allPosts), {
-            EX: cacheTTL
-        });
+        const page = await getCachedPage(
+            ALL_POSTS,
+            `${cursor || 'first'}:${limit}`,
+            async () => {
+                const posts = await postModel
+                    .find({
+                        ...publishedFilter,
+                        ...afterCursor(after, 'publishedAt')
+                    })
+                    .sort({ publishedAt: -1, _id: -1 })
+                    .limit(limit + 1)
+                    .populate({
+                        path: 'author',
+                        select: 'username profilePicture fullname',
+                        model: 'User'
+                    })
+                    .populate('category', 'name');
+
+                return toPage(posts, limit, 'publishedAt');
+            }
+        );
 
         return res.status(200).json({
             success: true,
-            data: allPosts,
+            data: await presentPosts(page.items, req.user?.id),
+            nextCursor: page.nextCursor,
             message: 'All posts retrieved successfully'
         });
     } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
         console.error(error);
         return res.status(500).json({
             success: false,
@@ -158,6 +223,21 @@ export const getAllPosts = async (req: Request, res: Response) => {
     }
 };
 
+// Views are counted in the background, a failure must not fail the read.
+// Clients send document.referrer as `ref`, the Referer header of their
+// API calls is the app itself.
+const countView = (
+    req: Request,
+    post: { _id: unknown; author?: unknown; coAuthors?: unknown[] }
+) =>
+    recordView(
+        post,
+        getViewerId(req.user?.id, req.ip, req.get('user-agent')),
+        parseReferrer(
+            typeof req.query.ref === 'string' ? req.query.ref : undefined
+        )
+    ).catch((error) => console.error(error));
+
 // get post by id
 export const getPostsById = async (req: Request, res: Response) => {
     const postId = req.params.postId;
@@ -165,7 +245,7 @@ export const getPostsById = async (req: Request, res: Response) => {
     try {
         const postExists = await postModel.findById(postId);
 
-        if (!postExists) {
+        if (!postExists || !isPublished(postExists)) {
             return res.status(404).json({
                 success: false,
                 message: 'Post not found'
@@ -176,10 +256,13 @@ export const getPostsById = async (req: Request, res: Response) => {
             .findById(postId)
             .populate('author', 'fullname');
 
+        countView(req, postExists);
+
         return res.status(200).json({
             success: true,
             data: {
-                posts
+                posts: posts && (await presentPost(posts, req.user?.id)),
+                series: await getSeriesNavigation(postExists._id)
             },
             message: 'Posts retrieved successfully'
         });
@@ -193,33 +276,99 @@ export const getPostsById = async (req: Request, res: Response) => {
     }
 };
 
-// get posts by category
-export const getPostsByCategory = async (req: Request, res: Response) => {
-    const categoryId = req.params.categoryId;
-
+// get a published post by its slug
+export const getPostBySlug = async (req: Request, res: Response) => {
     try {
-        const categoryExists = await categoryModel.findById(categoryId);
+        const post = await postModel
+            .findOne({ slug: req.params.slug, ...publishedFilter })
+            .populate('author', 'username profilePicture fullname')
+            .populate('category', 'name');
 
-        if (!categoryExists) {
+        if (!post) {
             return res.status(404).json({
                 success: false,
                 message: 'Post not found'
             });
         }
 
-        const posts = await postModel
-            .find({ category: categoryId })
-            .populate('author', 'name')
-            .populate('category', 'name');
+        countView(req, {
+            _id: post._id,
+            author: post.populated('author'),
+            coAuthors: post.coAuthors
+        });
 
         return res.status(200).json({
             success: true,
             data: {
-                posts
+                post: await presentPost(post, req.user?.id)
             },
+            message: 'Post retrieved successfully'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get post details',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// get posts by category ID or slug
+export const getPostsByCategory = async (req: Request, res: Response) => {
+    try {
+        const { cursor, limit } = paginationValidation.parse(req.query);
+        const after = cursor ? decodeCursor(cursor) : null;
+
+        if (cursor && !after) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid cursor' });
+        }
+
+        const category = await findCategory(req.params.category);
+
+        if (!category) {
+            return res.status(404).json({
+                success: false,
+                message: 'Category not found'
+            });
+        }
+
+        const page = await getCachedPage(
+            CATEGORY_POSTS(category.id),
+            `${cursor || 'first'}:${limit}`,
+            async () => {
+                const posts = await postModel
+                    .find({
+                        category: category._id,
+                        ...publishedFilter,
+                        ...afterCursor(after, 'publishedAt')
+                    })
+                    .sort({ publishedAt: -1, _id: -1 })
+                    .limit(limit + 1)
+                    .populate('author', 'name')
+                    .populate('category', 'name');
+
+                return toPage(posts, limit, 'publishedAt');
+            }
+        );
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                posts: await presentPosts(page.items, req.user?.id)
+            },
+            nextCursor: page.nextCursor,
             message: 'Posts retrieved successfully'
         });
     } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
         console.error(error);
         return res.status(500).json({
             success: false,
@@ -242,7 +391,18 @@ export const updatePost = async (req: Request, res: Response) => {
             });
         }
 
-        const parsedData = updatePostValidation.parse(req.body);
+        const files = (req.files as Express.Multer.File[] | undefined) || [];
+        const parsedData = updatePostValidation.parse({
+            ...req.body,
+            uploadCount: files.length
+        });
+        const {
+            category,
+            attachments: keptAttachments,
+            attachmentDetails,
+            uploadCount,
+            ...changes
+        } = parsedData;
 
         const post = await postModel.findById(postId);
         if (!post) {
@@ -252,43 +412,162 @@ export const updatePost = async (req: Request, res: Response) => {
             });
         }
 
-        if (post.author?.toString() !== userId) {
+        const actor = await getActor(req);
+        if (!actor || !policy.post.update(actor, post)) {
             return res.status(403).json({
                 success: false,
                 message: 'You are not authorized to update this post'
             });
         }
 
-        const updatedPost = await postModel.findByIdAndUpdate(
-            postId,
-            { $set: parsedData },
-            { new: true }
+        if (post.kind === 'repost') {
+            return res.status(400).json({
+                success: false,
+                message: 'Reposts cannot be edited'
+            });
+        }
+
+        const postCategory = category ? await findCategory(category) : null;
+        if (category && !postCategory) {
+            return res.status(400).json({
+                success: false,
+                message: 'Category does not exist'
+            });
+        }
+
+        const currentAttachments = post.attachments.map((attachment) =>
+            attachment.toObject()
         );
 
+        const findAttachment = (id: string) =>
+            currentAttachments.find(
+                (attachment) => String(attachment._id) === id
+            );
+
+        if (keptAttachments?.some((item) => !findAttachment(item.id))) {
+            return res.status(400).json({
+                success: false,
+                message: 'Unknown attachment'
+            });
+        }
+
+        // Attachments that are kept, in their new order, with any changed
+        // alt text or caption
+        const kept = keptAttachments
+            ? keptAttachments.flatMap((item) => {
+                  const existing = findAttachment(item.id);
+                  return existing
+                      ? [
+                            {
+                                ...existing,
+                                alt: item.alt ?? existing.alt,
+                                caption: item.caption ?? existing.caption
+                            }
+                        ]
+                      : [];
+              })
+            : currentAttachments;
+
+        if (kept.length + uploadCount > MAX_ATTACHMENTS) {
+            return res.status(400).json({
+                success: false,
+                message: `A post can have at most ${MAX_ATTACHMENTS} attachments`
+            });
+        }
+
+        // Slugs are fixed once a post is published so shared links keep working
+        const newSlugTitle =
+            parsedData.title && (!post.slug || !isPublished(post))
+                ? parsedData.title
+                : undefined;
+
+        // Only title and content changes are kept as revisions
+        const isEdit =
+            parsedData.title !== undefined || parsedData.content !== undefined;
+
+        if (isEdit) {
+            await ensureInitialRevision(post);
+        }
+
+        // Uploaded last, so that nothing is left on Cloudinary when the
+        // request is rejected
+        const uploaded = await uploadAttachments(files, attachmentDetails);
+        if (!uploaded) {
+            return res.status(500).json({
+                success: false,
+                message: 'Attachment upload to Cloudinary failed'
+            });
+        }
+
+        const attachments =
+            keptAttachments || uploaded.length > 0
+                ? [...kept, ...uploaded]
+                : undefined;
+
+        const applyUpdate = (slug?: string) =>
+            postModel.findByIdAndUpdate(
+                postId,
+                {
+                    $set: {
+                        ...changes,
+                        ...(postCategory && { category: postCategory._id }),
+                        ...(attachments && {
+                            attachments,
+                            image: coverImage(attachments)
+                        }),
+                        ...(slug && { slug }),
+                        ...(isEdit && { edited: true, editedAt: new Date() }),
+                        ...(parsedData.content !== undefined &&
+                            buildContentFields(parsedData.content))
+                    }
+                },
+                { new: true }
+            );
+
+        const updatedPost = await (
+            newSlugTitle
+                ? withUniqueSlug(newSlugTitle, applyUpdate, post._id)
+                : applyUpdate()
+        ).catch(async (error) => {
+            await removeAttachments(uploaded);
+            throw error;
+        });
+
         if (!updatedPost) {
+            await removeAttachments(uploaded);
             return res.status(404).json({
                 success: false,
                 message: 'Failed to update: Post not found'
             });
         }
 
+        if (isEdit) {
+            await saveRevision(updatedPost, userId);
+        }
+
+        if (keptAttachments) {
+            await removeAttachments(
+                currentAttachments.filter(
+                    (attachment) =>
+                        !kept.some(
+                            (item) =>
+                                String(item._id) === String(attachment._id)
+                        )
+                )
+            );
+        }
+
+        // Removed and added tags both need recounting
+        await syncTagCounts([...post.tags, ...updatedPost.tags]);
+        await syncCategoryCounts([post.category, updatedPost.category]);
+
         const populatedUpdatedPost = await postModel
             .findById(updatedPost._id)
             .populate('author', 'username profilePicture fullname')
             .populate('category', 'name');
 
-        const cachedPosts = await client.get(CACHE_KEY);
-        if (cachedPosts) {
-            const posts = JSON.parse(cachedPosts);
-            const postIndex = posts.findIndex((p: any) => p._id === postId);
-            if (postIndex > -1) {
-                posts[postIndex] = populatedUpdatedPost;
-                await client.set(CACHE_KEY, JSON.stringify(posts));
-            }
-        }
-
-        await client.del(PROFILE_CACHE_KEY(userId));
-        await client.del(POSTS_CACHE_KEY(userId));
+        await invalidatePostListings(post, updatedPost);
+        await queueRankingUpdate([post._id]);
 
         return res.status(200).json({
             success: true,
@@ -298,6 +577,12 @@ export const updatePost = async (req: Request, res: Response) => {
             message: 'Post updated successfully'
         });
     } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
         console.error(error);
         return res.status(500).json({
             success: false,
@@ -334,7 +619,8 @@ export const deletePost = async (req: Request, res: Response) => {
             });
         }
 
-        if (post.author?.toString() !== userId) {
+        const actor = await getActor(req);
+        if (!actor || !policy.post.delete(actor, post)) {
             return res.status(403).json({
                 success: false,
                 message: 'You are not authorized to delete this post'
@@ -342,6 +628,7 @@ export const deletePost = async (req: Request, res: Response) => {
         }
 
         const deletePost = await postModel.findByIdAndDelete(postId);
+        await postRevisionModel.deleteMany({ post: postId });
 
         if (!deletePost) {
             return res.status(404).json({
@@ -350,15 +637,26 @@ export const deletePost = async (req: Request, res: Response) => {
             });
         }
 
-        const cachedPosts = await client.get(CACHE_KEY);
-        if (cachedPosts) {
-            const posts = JSON.parse(cachedPosts);
-            const filteredPosts = posts.filter((p: any) => p._id !== postId); // Remove the deleted post
-            await client.set(CACHE_KEY, JSON.stringify(filteredPosts));
-        }
-
-        await client.del(PROFILE_CACHE_KEY(userId));
-        await client.del(POSTS_CACHE_KEY(userId));
+        // Reposts of the post go with it, quotes show a tombstone
+        const reposts = await removeRepostsOf([deletePost._id]);
+
+        // Moderators can delete other people's posts, so use the post's author
+        await syncTagCounts(deletePost.tags);
+        await syncCategoryCounts([deletePost.category]);
+        await syncRepostCounts([deletePost.repostOf]);
+        await invalidatePostListings(deletePost, ...reposts);
+        await queueRankingUpdate([
+            deletePost._id,
+            ...reposts.map((repost) => repost._id)
+        ]);
+        await removeAttachments(postMedia(deletePost));
+        await removePostsFromBookmarks([
+            deletePost._id,
+            ...reposts.map((repost) => repost._id)
+        ]);
+        await postViewStatModel.deleteMany({ post: deletePost._id });
+        await removePostsFromSeries([deletePost._id]);
+        await removePostInvitations([deletePost._id]);
 
         return res.status(200).json({
             success: true,
@@ -374,3 +672,165 @@ export const deletePost = async (req: Request, res: Response) => {
         });
     }
 };
+
+// list the current user's drafts and scheduled posts
+export const getMyDrafts = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+
+        const drafts = await postModel
+            .find({
+                ...authoredBy(userId),
+                status: { $in: ['draft', 'scheduled'] }
+            })
+            .sort({ updatedAt: -1 })
+            .populate('category', 'name');
+
+        return res.status(200).json({
+            success: true,
+            data: drafts,
+            message: 'Drafts retrieved successfully'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get drafts',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// publish a post now, or schedule it when publishAt is given
+export const publishPost = async (req: Request, res: Response) => {
+    try {
+        const postId = req.params.id;
+        const { publishAt } = publishPostValidation.parse(req.body);
+
+        if (!mongoose.Types.ObjectId.isValid(postId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid post ID' });
+        }
+
+        const post = await postModel.findById(postId);
+        if (!post) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Post not found' });
+        }
+
+        const actor = await getActor(req);
+        if (!actor || !policy.post.update(actor, post)) {
+            return res.status(403).json({
+                success: false,
+                message: 'You are not authorized to publish this post'
+            });
+        }
+
+        if (isPublished(post)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Post is already published'
+            });
+        }
+
+        post.status = publishAt ? 'scheduled' : 'published';
+        post.publishAt = publishAt;
+        // A post published before keeps its place in listings
+        if (post.status === 'published') {
+            post.publishedAt = post.publishedAt ?? new Date();
+        }
+        await post.save();
+
+        await syncTagCounts(post.tags);
+        await syncCategoryCounts([post.category]);
+        await invalidatePostListings(post);
+        await queueRankingUpdate([post._id]);
+
+        if (post.status === 'published') {
+            fanOutPost(post).catch((error) => console.error(error));
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: { post },
+            message: publishAt
+                ? 'Post scheduled successfully'
+                : 'Post published successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to publish post',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// take a post back to drafts, or archive it
+export const unpublishPost = async (req: Request, res: Response) => {
+    try {
+        const postId = req.params.id;
+        const { status } = unpublishPostValidation.parse(req.body);
+
+        if (!mongoose.Types.ObjectId.isValid(postId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid post ID' });
+        }
+
+        const post = await postModel.findById(postId);
+        if (!post) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Post not found' });
+        }
+
+        const actor = await getActor(req);
+        if (!actor || !policy.post.update(actor, post)) {
+            return res.status(403).json({
+                success: false,
+                message: 'You are not authorized to unpublish this post'
+            });
+        }
+
+        post.status = status;
+        post.publishAt = undefined;
+        await post.save();
+
+        await syncTagCounts(post.tags);
+        await syncCategoryCounts([post.category]);
+        await invalidatePostListings(post);
+        await queueRankingUpdate([post._id]);
+
+        return res.status(200).json({
+            success: true,
+            data: { post },
+            message:
+                status === 'archived'
+                    ? 'Post archived successfully'
+                    : 'Post moved to drafts'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to unpublish post',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -0,0 +1,217 @@
+import { ZodError } from 'zod';
+import mongoose from 'mongoose';
+import { Request, Response } from 'express';
+import postModel from '../models/post.model.js';
+import { getActor, policy } from '../utils/policy.js';
+import { buildContentFields } from '../utils/postContent.js';
+import postRevisionModel from '../models/postRevision.model.js';
+import { invalidatePostListings } from '../utils/postCache.js';
+import { diffText, saveRevision } from '../utils/postRevision.js';
+import { revisionDiffValidation } from '../validations/post.validation.js';
+
+// list the saved versions of a post, newest first
+export const getRevisions = async (req: Request, res: Response) => {
+    try {
+        const postId = req.params.id;
+
+        if (!mongoose.Types.ObjectId.isValid(postId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid post ID' });
+        }
+
+        const post = await postModel.findById(postId);
+        if (!post) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Post not found' });
+        }
+
+        const actor = await getActor(req);
+        if (!actor || !policy.post.viewRevisions(actor, post)) {
+            return res.status(403).json({
+                success: false,
+                message: 'You are not authorized to view this post history'
+            });
+        }
+
+        const revisions = await postRevisionModel
+            .find({ post: postId })
+            .sort({ version: -1 })
+            .populate('editor', 'username fullname');
+
+        return res.status(200).json({
+            success: true,
+            data: revisions,
+            message: 'Revisions retrieved successfully'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get revisions',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// compare two versions of a post, by default the latest with the one before
+export const diffRevisions = async (req: Request, res: Response) => {
+    try {
+        const postId = req.params.id;
+        const query = revisionDiffValidation.parse(req.query);
+
+        if (!mongoose.Types.ObjectId.isValid(postId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid post ID' });
+        }
+
+        const post = await postModel.findById(postId);
+        if (!post) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Post not found' });
+        }
+
+        const actor = await getActor(req);
+        if (!actor || !policy.post.viewRevisions(actor, post)) {
+            return res.status(403).json({
+                success: false,
+                message: 'You are not authorized to view this post history'
+            });
+        }
+
+        const latest = await postRevisionModel
+            .findOne({ post: postId })
+            .sort({ version: -1 })
+            .select('version');
+
+        const to = query.to ?? latest?.version ?? 1;
+        const from = query.from ?? Math.max(to - 1, 1);
+
+        const [fromRevision, toRevision] = await Promise.all([
+            postRevisionModel.findOne({ post: postId, version: from }),
+            postRevisionModel.findOne({ post: postId, version: to })
+        ]);
+
+        if (!fromRevision || !toRevision) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Revision not found' });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                from: {
+                    version: fromRevision.version,
+                    createdAt: fromRevision.createdAt
+                },
+                to: {
+                    version: toRevision.version,
+                    createdAt: toRevision.createdAt
+                },
+                title: diffText(
+                    fromRevision.title || '',
+                    toRevision.title || ''
+                ),
+                content: diffText(
+                    fromRevision.content || '',
+                    toRevision.content || ''
+                )
+            },
+            message: 'Revisions compared successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to compare revisions',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// bring back an earlier version, saved as a new revision
+export const restoreRevision = async (req: Request, res: Response) => {
+    try {
+        const postId = req.params.id;
+        const userId = req.user?.id;
+        const version = Number(req.params.version);
+
+        if (!mongoose.Types.ObjectId.isValid(postId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid post ID' });
+        }
+
+        const post = await postModel.findById(postId);
+        if (!post) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Post not found' });
+        }
+
+        const actor = await getActor(req);
+        if (!actor || !policy.post.update(actor, post)) {
+            return res.status(403).json({
+                success: false,
+                message: 'You are not authorized to update this post'
+            });
+        }
+
+        const revision = Number.isInteger(version)
+            ? await postRevisionModel.findOne({ post: postId, version })
+            : null;
+
+        if (!revision) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Revision not found' });
+        }
+
+        const restoredPost = await postModel.findByIdAndUpdate(
+            postId,
+            {
+                $set: {
+                    title: revision.title,
+                    content: revision.content,
+                    ...buildContentFields(revision.content || ''),
+                    edited: true,
+                    editedAt: new Date()
+                }
+            },
+            { new: true }
+        );
+
+        if (!restoredPost) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Post not found' });
+        }
+
+        await saveRevision(restoredPost, userId);
+
+        await invalidatePostListings(post);
+
+        return res.status(200).json({
+            success: true,
+            data: { post: restoredPost },
+            message: `Post restored to version ${revision.version}`
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to restore revision',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -1,12 +1,24 @@
+import { ZodError } from 'zod';
 import { client } from '../lib/redis.js';
 import { Request, Response } from 'express';
 import userModel from '../models/user.model.js';
 import postModel from '../models/post.model.js';
+import { getActor, policy } from '../utils/policy.js';
 import { uploadOnCloudinary } from '../utils/cloudinary.js';
+import { authoredBy, publishedFilter } from '../utils/postLifecycle.js';
+import { getUserSeries } from '../utils/series.js';
+import { presentPosts } from '../utils/postPresenter.js';
+import { afterCursor, decodeCursor, toPage } from '../utils/pagination.js';
 import { updateProfileValidation } from '../validations/profile.validation.js';
+import { paginationValidation } from '../validations/pagination.validation.js';
+import {
+    ALL_POSTS,
+    USER_POSTS,
+    getCachedPage,
+    invalidateListings
+} from '../utils/postCache.js';
 
 const PROFILE_CACHE_KEY = (userId: string) => `profile:${userId}`;
-const POSTS_CACHE_KEY = (userId: string) => `posts:${userId}`;
 const cacheTTL = 10800;
 
 // create profile
@@ -21,52 +33,70 @@ export const getProfile = async (req: Request, res: Response) => {
             });
         }
 
-        const cachedProfileData = await client.get(PROFILE_CACHE_KEY(userId));
-        const cachedPostsData = await client.get(POSTS_CACHE_KEY(userId));
+        const { cursor, limit } = paginationValidation.parse(req.query);
+        const after = cursor ? decodeCursor(cursor) : null;
 
-        if (cachedProfileData && cachedPostsData) {
-            return res.status(200).json({
-                success: true,
-                profile: JSON.parse(cachedProfileData),
-                posts: JSON.parse(cachedPostsData)
-            });
+        if (cursor && !after) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid cursor' });
         }
 
-        const userProfile = await userModel
-            .findById(userId)
-            .select('-password');
+        const cachedProfileData = await client.get(PROFILE_CACHE_KEY(userId));
+        let userProfile = cachedProfileData
+            ? JSON.parse(cachedProfileData)
+            : null;
 
         if (!userProfile) {
-            return res.status(404).json({
-                success: false,
-                message:
-                    'Your profile could not be found. Please ensure you are logged in with the correct account.'
-            });
+            userProfile = await userModel.findById(userId).select('-password');
+
+            if (!userProfile) {
+                return res.status(404).json({
+                    success: false,
+                    message:
+                        'Your profile could not be found. Please ensure you are logged in with the correct account.'
+                });
+            }
+
+            await client.set(
+                PROFILE_CACHE_KEY(userId),
+                JSON.stringify(userProfile),
+                {
+                    EX: cacheTTL
+                }
+            );
         }
 
-        const userPosts = await postModel
-            .find({ author: userId })
-            .sort({ createdAt: -1 })
-            .populate('author', 'username profilePicture fullname')
-            .populate('image');
-
-        await client.set(
-            PROFILE_CACHE_KEY(userId),
-            JSON.stringify(userProfile),
-            {
-                EX: cacheTTL
+        // The author sees all of their posts, drafts and co-authored posts
+        // included
+        const page = await getCachedPage(
+            USER_POSTS(userId),
+            `own:${cursor || 'first'}:${limit}`,
+            async () => {
+                const userPosts = await postModel
+                    .find({ $and: [authoredBy(userId), afterCursor(after)] })
+                    .sort({ createdAt: -1, _id: -1 })
+                    .limit(limit + 1)
+                    .populate('author', 'username profilePicture fullname')
+                    .populate('image');
+
+                return toPage(userPosts, limit);
             }
         );
-        await client.set(POSTS_CACHE_KEY(userId), JSON.stringify(userPosts), {
-            EX: cacheTTL
-        });
 
         return res.status(200).json({
             success: true,
             profile: userProfile,
-            posts: userPosts
+            posts: await presentPosts(page.items, userId),
+            nextCursor: page.nextCursor
         });
     } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
         console.error(error);
         return res.status(500).json({
             success: false,
@@ -82,24 +112,23 @@ export const updateProfile = async (req: Request, res: Response) => {
         const parsedData = updateProfileValidation.parse(req.body);
         const { username, bio } = parsedData;
 
-        const localImagePath = req.file ? req.file.path : null;
-
-        let imageUrl: string | null = null;
-
-        if (localImagePath) {
-            const uploadResponse = await uploadOnCloudinary(localImagePath);
-            imageUrl = uploadResponse ? uploadResponse.secure_url : null;
-        }
-
-        const userId = req.user?.id;
+        const userId = req.params.id;
+        const actor = await getActor(req);
 
-        if (!userId) {
+        if (!actor) {
             return res.status(401).json({
                 success: false,
                 message: 'You are not authenticated. Please Signin'
             });
         }
 
+        if (!policy.profile.update(actor, userId)) {
+            return res.status(403).json({
+                success: false,
+                message: 'You are not authorized to update this profile'
+            });
+        }
+
         const profile = await userModel.findById(userId);
 
         if (!profile) {
@@ -109,6 +138,15 @@ export const updateProfile = async (req: Request, res: Response) => {
             });
         }
 
+        const localImagePath = req.file ? req.file.path : null;
+
+        let imageUrl: string | null = null;
+
+        if (localImagePath) {
+            const uploadResponse = await uploadOnCloudinary(localImagePath);
+            imageUrl = uploadResponse ? uploadResponse.secure_url : null;
+        }
+
         const updatedProfileData = {
             ...(username && { username }), // Update username if provided
             ...(imageUrl && { profilePicture: imageUrl }), // Update profile picture if provided
@@ -121,9 +159,9 @@ export const updateProfile = async (req: Request, res: Response) => {
             { new: true }
         );
 
+        // Listed posts embed the author's name and picture
         await client.del(PROFILE_CACHE_KEY(userId));
-        await client.del(POSTS_CACHE_KEY(userId));
-        await client.del('posts:all');
+        await invalidateListings([ALL_POSTS, USER_POSTS(userId)]);
 
         return res.status(200).json({
             success: true,
@@ -144,7 +182,19 @@ export const updateProfile = async (req: Request, res: Response) => {
 export const getUsersProfile = async (req: Request, res: Response) => {
     try {
         const userId = req.params.id;
-        const profile = await userModel.findById(userId);
+        const { cursor, limit } = paginationValidation.parse(req.query);
+        const after = cursor ? decodeCursor(cursor) : null;
+
+        if (cursor && !after) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid cursor' });
+        }
+
+        const profile = await userModel.findOne({
+            _id: userId,
+            deletionScheduledAt: { $exists: false }
+        });
 
         if (!profile) {
             return res.status(404).json({
@@ -153,21 +203,44 @@ export const getUsersProfile = async (req: Request, res: Response) => {
             });
         }
 
-        const userPosts = await postModel
-            .find({ author: userId })
-            .sort({ createdAt: -1 })
-            .populate({
-                path: 'author',
-                select: 'username profilePicture fullname',
-                model: 'User'
-            });
+        const page = await getCachedPage(
+            USER_POSTS(userId),
+            `public:${cursor || 'first'}:${limit}`,
+            async () => {
+                const userPosts = await postModel
+                    .find({
+                        ...publishedFilter,
+                        $and: [
+                            authoredBy(userId),
+                            afterCursor(after, 'publishedAt')
+                        ]
+                    })
+                    .sort({ publishedAt: -1, _id: -1 })
+                    .limit(limit + 1)
+                    .populate({
+                        path: 'author',
+                        select: 'username profilePicture fullname',
+                        model: 'User'
+                    });
+
+                return toPage(userPosts, limit, 'publishedAt');
+            }
+        );
 
         return res.status(200).json({
             success: true,
             profile: profile,
-            posts: userPosts
+            series: await getUserSeries(userId, req.user?.id),
+            posts: await presentPosts(page.items, req.user?.id),
+            nextCursor: page.nextCursor
         });
     } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
         console.error(error);
         return res.status(500).json({
             success: false,
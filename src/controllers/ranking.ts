@@ -0,0 +1,96 @@
+import { ZodError } from 'zod';
+import { Request, Response } from 'express';
+import { findCategory } from '../utils/categories.js';
+import { presentPosts } from '../utils/postPresenter.js';
+import { rankingValidation } from '../validations/post.validation.js';
+import {
+    TOP_RANKING,
+    TRENDING_RANKING,
+    getRankedPosts
+} from '../utils/rankings.js';
+
+// posts gaining likes, comments and views fastest in the last 24 hours or 7 days
+export const getTrendingPosts = async (req: Request, res: Response) => {
+    try {
+        const { window, category, tag, page, limit } = rankingValidation.parse(
+            req.query
+        );
+
+        const postCategory = category ? await findCategory(category) : null;
+        if (category && !postCategory) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Category not found' });
+        }
+
+        const { items, total } = await getRankedPosts(
+            TRENDING_RANKING(window),
+            { category: postCategory?.id, tag, page, limit }
+        );
+
+        return res.status(200).json({
+            success: true,
+            data: await presentPosts(items, req.user?.id),
+            page,
+            totalPosts: total,
+            message: 'Trending posts retrieved successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get trending posts',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// posts with the most likes, comments and views of all time
+export const getTopPosts = async (req: Request, res: Response) => {
+    try {
+        const { category, tag, page, limit } = rankingValidation.parse(
+            req.query
+        );
+
+        const postCategory = category ? await findCategory(category) : null;
+        if (category && !postCategory) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Category not found' });
+        }
+
+        const { items, total } = await getRankedPosts(TOP_RANKING, {
+            category: postCategory?.id,
+            tag,
+            page,
+            limit
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: await presentPosts(items, req.user?.id),
+            page,
+            totalPosts: total,
+            message: 'Top posts retrieved successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get top posts',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -0,0 +1,354 @@
+import { ZodError } from 'zod';
+import mongoose from 'mongoose';
+import { Request, Response } from 'express';
+import postModel from '../models/post.model.js';
+import readingListModel from '../models/readingList.model.js';
+import { presentPosts } from '../utils/postPresenter.js';
+import {
+    authoredBy,
+    isPostVisibleTo,
+    publishedFilter
+} from '../utils/postLifecycle.js';
+import {
+    createReadingListValidation,
+    updateReadingListValidation,
+    readingListPostValidation,
+    reorderReadingListValidation
+} from '../validations/bookmark.validation.js';
+
+const MAX_LIST_POSTS = 500;
+
+// A list the user may change, or null if it does not exist or is not theirs
+const findOwnList = (listId: string, userId?: string) =>
+    mongoose.Types.ObjectId.isValid(listId)
+        ? readingListModel.findOne({ _id: listId, owner: userId })
+        : null;
+
+const listNotFound = (res: Response) =>
+    res.status(404).json({ success: false, message: 'Reading list not found' });
+
+// the logged-in user's reading lists
+export const getMyReadingLists = async (req: Request, res: Response) => {
+    try {
+        const lists = await readingListModel
+            .find({ owner: req.user?.id })
+            .sort({ updatedAt: -1 });
+
+        return res.status(200).json({ success: true, lists });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get reading lists',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// another user's public reading lists
+export const getUserReadingLists = async (req: Request, res: Response) => {
+    try {
+        const userId = req.params.userId;
+
+        if (!mongoose.Types.ObjectId.isValid(userId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid user ID' });
+        }
+
+        const lists = await readingListModel
+            .find({ owner: userId, visibility: 'public' })
+            .sort({ updatedAt: -1 });
+
+        return res.status(200).json({ success: true, lists });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get reading lists',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// a reading list with its posts, for its owner or anyone if it is public
+export const getReadingList = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        const listId = req.params.id;
+
+        if (!mongoose.Types.ObjectId.isValid(listId)) {
+            return listNotFound(res);
+        }
+
+        const list = await readingListModel
+            .findById(listId)
+            .populate('owner', 'username profilePicture fullname');
+
+        const isOwner = !!userId && String(list?.owner?._id) === userId;
+
+        if (!list || (list.visibility !== 'public' && !isOwner)) {
+            return listNotFound(res);
+        }
+
+        // Posts that are not published are only shown to their authors
+        const posts = await postModel
+            .find({
+                _id: { $in: list.posts },
+                $or: [
+                    publishedFilter,
+                    ...(userId ? authoredBy(userId).$or : [])
+                ]
+            })
+            .populate('author', 'username profilePicture fullname')
+            .populate('category', 'name');
+
+        const postsById = new Map(posts.map((post) => [post.id, post]));
+        const orderedPosts = list.posts.flatMap((postId) => {
+            const post = postsById.get(String(postId));
+            return post ? [post] : [];
+        });
+
+        return res.status(200).json({
+            success: true,
+            list: {
+                ...list.toJSON(),
+                posts: await presentPosts(orderedPosts, userId)
+            }
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get reading list',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// create a reading list
+export const createReadingList = async (req: Request, res: Response) => {
+    try {
+        const parsedData = createReadingListValidation.parse(req.body);
+
+        const list = await readingListModel.create({
+            ...parsedData,
+            owner: req.user?.id
+        });
+
+        return res.status(201).json({
+            success: true,
+            list,
+            message: 'Reading list created successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to create reading list',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// rename a reading list, change its description or who can see it
+export const updateReadingList = async (req: Request, res: Response) => {
+    try {
+        const parsedData = updateReadingListValidation.parse(req.body);
+
+        const list = await findOwnList(req.params.id, req.user?.id);
+        if (!list) return listNotFound(res);
+
+        list.set(parsedData);
+        await list.save();
+
+        return res.status(200).json({
+            success: true,
+            list,
+            message: 'Reading list updated successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to update reading list',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// delete a reading list, the posts in it are not affected
+export const deleteReadingList = async (req: Request, res: Response) => {
+    try {
+        const list = await findOwnList(req.params.id, req.user?.id);
+        if (!list) return listNotFound(res);
+
+        await readingListModel.findByIdAndDelete(list._id);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Reading list deleted successfully'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to delete reading list',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// add a post to the end of a reading list
+export const addPostToReadingList = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        const { post: postId } = readingListPostValidation.parse(req.body);
+
+        const list = await findOwnList(req.params.id, userId);
+        if (!list) return listNotFound(res);
+
+        const post = await postModel
+            .findById(postId)
+            .select('status author coAuthors');
+
+        if (!post || !isPostVisibleTo(post, userId)) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Post not found' });
+        }
+
+        if (list.posts.some((id) => id.equals(post._id))) {
+            return res.status(409).json({
+                success: false,
+                message: 'Post is already in this reading list'
+            });
+        }
+
+        if (list.posts.length >= MAX_LIST_POSTS) {
+            return res.status(400).json({
+                success: false,
+                message: `A reading list can have at most ${MAX_LIST_POSTS} posts`
+            });
+        }
+
+        list.posts.push(post._id);
+        await list.save();
+
+        return res.status(200).json({
+            success: true,
+            list,
+            message: 'Post added to reading list'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to add post to reading list',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// remove a post from a reading list
+export const removePostFromReadingList = async (
+    req: Request,
+    res: Response
+) => {
+    try {
+        const postId = req.params.postId;
+
+        if (!mongoose.Types.ObjectId.isValid(postId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid post ID' });
+        }
+
+        const list = await findOwnList(req.params.id, req.user?.id);
+        if (!list) return listNotFound(res);
+
+        list.set(
+            'posts',
+            list.posts.filter((id) => !id.equals(postId))
+        );
+        await list.save();
+
+        return res.status(200).json({
+            success: true,
+            list,
+            message: 'Post removed from reading list'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to remove post from reading list',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// put the posts of a reading list in a new order
+export const reorderReadingList = async (req: Request, res: Response) => {
+    try {
+        const { posts } = reorderReadingListValidation.parse(req.body);
+
+        const list = await findOwnList(req.params.id, req.user?.id);
+        if (!list) return listNotFound(res);
+
+        // The new order must contain exactly the posts already in the list
+        const current = list.posts.map(String).sort();
+        const reordered = posts.map((id) => id.toLowerCase());
+
+        if (
+            new Set(reordered).size !== reordered.length ||
+            [...reordered].sort().join() !== current.join()
+        ) {
+            return res.status(400).json({
+                success: false,
+                message:
+                    'The new order must list every post in the reading list exactly once'
+            });
+        }
+
+        list.set('posts', reordered);
+        await list.save();
+
+        return res.status(200).json({
+            success: true,
+            list,
+            message: 'Reading list reordered successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to reorder reading list',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
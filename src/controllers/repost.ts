@@ -0,0 +1,159 @@
+import { ZodError } from 'zod';
+import mongoose from 'mongoose';
+import { Request, Response } from 'express';
+import postModel from '../models/post.model.js';
+import { fanOutPost } from '../utils/feed.js';
+import { isPublished } from '../utils/postLifecycle.js';
+import { syncRepostCounts } from '../utils/reposts.js';
+import { isDuplicateKeyError } from '../utils/dbErrors.js';
+import { presentPost } from '../utils/postPresenter.js';
+import { buildContentFields } from '../utils/postContent.js';
+import { removePostsFromBookmarks } from '../utils/bookmarks.js';
+import { queueRankingUpdate } from '../utils/rankings.js';
+import { invalidatePostListings } from '../utils/postCache.js';
+import { repostValidation } from '../validations/post.validation.js';
+
+// repost a post, or quote it when commentary is given
+export const createRepost = async (req: Request, res: Response) => {
+    try {
+        const author = req.user?.id;
+        const postId = req.params.id;
+
+        if (!author) {
+            return res.status(401).json({
+                success: false,
+                message: 'You are not authenticated. Please Signin'
+            });
+        }
+
+        if (!mongoose.Types.ObjectId.isValid(postId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid post ID' });
+        }
+
+        const { content } = repostValidation.parse(req.body);
+
+        // Reposting a repost shares the post it refers to
+        let original = await postModel.findById(postId);
+        if (original?.kind === 'repost' && original.repostOf) {
+            original = await postModel.findById(original.repostOf);
+        }
+
+        if (!original || !isPublished(original)) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Post not found' });
+        }
+
+        const kind = content ? 'quote' : 'repost';
+
+        // A user can repost a post once, which the unique index enforces
+        const repost = await postModel
+            .create({
+                author,
+                kind,
+                repostOf: original._id,
+                ...(content && { content, ...buildContentFields(content) }),
+                status: 'published',
+                publishedAt: new Date()
+            })
+            .catch((error) => {
+                if (isDuplicateKeyError(error, 'repostOf')) return null;
+                throw error;
+            });
+
+        if (!repost) {
+            return res.status(409).json({
+                success: false,
+                message: 'You have already reposted this post'
+            });
+        }
+
+        await syncRepostCounts([original._id]);
+        await invalidatePostListings(repost, original);
+
+        // Followers' timelines are updated in the background
+        fanOutPost(repost).catch((error) => console.error(error));
+
+        return res.status(201).json({
+            success: true,
+            data: {
+                post: await presentPost(repost, author)
+            },
+            message:
+                kind === 'quote'
+                    ? 'Post quoted successfully'
+                    : 'Post reposted successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to repost',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// undo a repost. Quotes are deleted like any other post.
+export const removeRepost = async (req: Request, res: Response) => {
+    try {
+        const author = req.user?.id;
+        const postId = req.params.id;
+
+        if (!mongoose.Types.ObjectId.isValid(postId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid post ID' });
+        }
+
+        // Undoing from a repost undoes the repost of the post it refers to,
+        // as in createRepost
+        const target = await postModel.findById(postId).select('kind repostOf');
+        const originalId =
+            target?.kind === 'repost' && target.repostOf
+                ? target.repostOf
+                : postId;
+
+        const repost = await postModel.findOneAndDelete({
+            author,
+            repostOf: originalId,
+            kind: 'repost'
+        });
+
+        if (!repost) {
+            return res.status(404).json({
+                success: false,
+                message: 'You have not reposted this post'
+            });
+        }
+
+        const original = await postModel
+            .findById(originalId)
+            .select('author coAuthors category tags');
+
+        await syncRepostCounts([originalId]);
+        await invalidatePostListings(repost, ...(original ? [original] : []));
+        await removePostsFromBookmarks([repost._id]);
+        await queueRankingUpdate([repost._id]);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Repost removed successfully'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to remove repost',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -15,7 +15,8 @@ export const searchUsers = async (req: Request, res: Response) => {
 
         const users = await userModel
             .find({
-                username: { $regex: username, $options: 'i' }
+                username: { $regex: username, $options: 'i' },
+                deletionScheduledAt: { $exists: false }
             })
             .select('-password');
 
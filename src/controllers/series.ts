@@ -0,0 +1,353 @@
+import { ZodError } from 'zod';
+import mongoose from 'mongoose';
+import { Request, Response } from 'express';
+import postModel from '../models/post.model.js';
+import seriesModel from '../models/series.model.js';
+import { authoredBy } from '../utils/postLifecycle.js';
+import {
+    MAX_SERIES_POSTS,
+    findSeries,
+    getSeriesPosts,
+    getUserSeries,
+    withUniqueSeriesSlug
+} from '../utils/series.js';
+import { isDuplicateKeyError } from '../utils/dbErrors.js';
+import {
+    createSeriesValidation,
+    updateSeriesValidation,
+    seriesPostValidation,
+    reorderSeriesValidation
+} from '../validations/series.validation.js';
+
+// A series the user may change, or null if it does not exist or is not theirs
+const findOwnSeries = async (idOrSlug: string, userId?: string) => {
+    const series = await findSeries(idOrSlug);
+    return series && String(series.owner) === userId ? series : null;
+};
+
+const seriesNotFound = (res: Response) =>
+    res.status(404).json({ success: false, message: 'Series not found' });
+
+// a series with its posts in order
+export const getSeries = async (req: Request, res: Response) => {
+    try {
+        const series = await findSeries(req.params.id).populate(
+            'owner',
+            'username profilePicture fullname'
+        );
+
+        if (!series) return seriesNotFound(res);
+
+        const posts = await getSeriesPosts(
+            { owner: series.owner?._id, posts: series.posts },
+            req.user?.id
+        );
+
+        return res.status(200).json({
+            success: true,
+            series: { ...series.toJSON(), posts }
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get series',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// the series of a user
+export const getUserSeriesList = async (req: Request, res: Response) => {
+    try {
+        const userId = req.params.userId;
+
+        if (!mongoose.Types.ObjectId.isValid(userId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid user ID' });
+        }
+
+        const series = await getUserSeries(userId, req.user?.id);
+
+        return res.status(200).json({ success: true, series });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get series',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// create a series
+export const createSeries = async (req: Request, res: Response) => {
+    try {
+        const { title, description } = createSeriesValidation.parse(req.body);
+
+        const series = await withUniqueSeriesSlug(title, (slug) =>
+            seriesModel.create({
+                owner: req.user?.id,
+                title,
+                slug,
+                description
+            })
+        );
+
+        return res.status(201).json({
+            success: true,
+            series,
+            message: 'Series created successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to create series',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// change the title or description of a series
+export const updateSeries = async (req: Request, res: Response) => {
+    try {
+        const { title, description } = updateSeriesValidation.parse(req.body);
+
+        const series = await findOwnSeries(req.params.id, req.user?.id);
+        if (!series) return seriesNotFound(res);
+
+        if (description !== undefined) series.description = description;
+
+        if (title !== undefined) {
+            series.title = title;
+            await withUniqueSeriesSlug(
+                title,
+                (slug) => {
+                    series.slug = slug;
+                    return series.save();
+                },
+                series._id
+            );
+        } else {
+            await series.save();
+        }
+
+        return res.status(200).json({
+            success: true,
+            series,
+            message: 'Series updated successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to update series',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// delete a series, its posts are kept
+export const deleteSeries = async (req: Request, res: Response) => {
+    try {
+        const series = await findOwnSeries(req.params.id, req.user?.id);
+        if (!series) return seriesNotFound(res);
+
+        await seriesModel.findByIdAndDelete(series._id);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Series deleted successfully'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to delete series',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// add one of the user's posts to a series
+export const addPostToSeries = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        const { post: postId, position } = seriesPostValidation.parse(req.body);
+
+        const series = await findOwnSeries(req.params.id, userId);
+        if (!series) return seriesNotFound(res);
+
+        const post = await postModel.findOne({
+            _id: postId,
+            ...authoredBy(userId)
+        });
+
+        if (!post) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Post not found' });
+        }
+
+        if (await seriesModel.exists({ posts: post._id })) {
+            return res.status(409).json({
+                success: false,
+                message: 'Post is already part of a series'
+            });
+        }
+
+        if (series.posts.length >= MAX_SERIES_POSTS) {
+            return res.status(400).json({
+                success: false,
+                message: `A series can have at most ${MAX_SERIES_POSTS} posts`
+            });
+        }
+
+        // Checked again in the write: the unique index on posts keeps a post
+        // out of a second series, the filter out of a full series
+        const updatedSeries = await seriesModel
+            .findOneAndUpdate(
+                {
+                    _id: series._id,
+                    posts: { $ne: post._id },
+                    [`posts.${MAX_SERIES_POSTS - 1}`]: { $exists: false }
+                },
+                {
+                    $push: {
+                        posts: {
+                            $each: [post._id],
+                            ...(position && { $position: position - 1 })
+                        }
+                    }
+                },
+                { new: true }
+            )
+            .catch((error) => {
+                if (isDuplicateKeyError(error, 'posts')) return null;
+                throw error;
+            });
+
+        if (!updatedSeries) {
+            return res.status(409).json({
+                success: false,
+                message:
+                    'Post is already part of a series or the series is full'
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            series: updatedSeries,
+            message: 'Post added to series'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to add post to series',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// remove a post from a series
+export const removePostFromSeries = async (req: Request, res: Response) => {
+    try {
+        const postId = req.params.postId;
+
+        if (!mongoose.Types.ObjectId.isValid(postId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid post ID' });
+        }
+
+        const series = await findOwnSeries(req.params.id, req.user?.id);
+        if (!series) return seriesNotFound(res);
+
+        series.set(
+            'posts',
+            series.posts.filter((id) => !id.equals(postId))
+        );
+        await series.save();
+
+        return res.status(200).json({
+            success: true,
+            series,
+            message: 'Post removed from series'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to remove post from series',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// put the posts of a series in a new order
+export const reorderSeries = async (req: Request, res: Response) => {
+    try {
+        const { posts } = reorderSeriesValidation.parse(req.body);
+
+        const series = await findOwnSeries(req.params.id, req.user?.id);
+        if (!series) return seriesNotFound(res);
+
+        // The new order must contain exactly the posts already in the series
+        const current = series.posts.map(String).sort();
+        const reordered = posts.map((id) => id.toLowerCase());
+
+        if (
+            new Set(reordered).size !== reordered.length ||
+            [...reordered].sort().join() !== current.join()
+        ) {
+            return res.status(400).json({
+                success: false,
+                message:
+                    'The new order must list every post in the series exactly once'
+            });
+        }
+
+        series.set('posts', reordered);
+        await series.save();
+
+        return res.status(200).json({
+            success: true,
+            series,
+            message: 'Series reordered successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to reorder series',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -0,0 +1,147 @@
+import { ZodError } from 'zod';
+import mongoose from 'mongoose';
+import { Request, Response } from 'express';
+import sessionModel from '../models/session.model.js';
+import { refreshTokenValidation } from '../validations/user.validation.js';
+import {
+    rotateSession,
+    revokeSession,
+    setAuthCookies,
+    clearAuthCookies
+} from '../utils/session.js';
+
+// exchange a refresh token for a new access token
+export const refresh = async (req: Request, res: Response) => {
+    try {
+        const { refreshToken } = refreshTokenValidation.parse({
+            refreshToken: req.cookies.refreshToken || req.body?.refreshToken
+        });
+
+        const tokens = await rotateSession(refreshToken);
+
+        if (!tokens) {
+            clearAuthCookies(res);
+            return res.status(401).json({
+                success: false,
+                message:
+                    'Your session has expired or was revoked. Please log in again to continue.'
+            });
+        }
+
+        setAuthCookies(res, tokens);
+
+        return res.status(200).json({
+            success: true,
+            token: tokens.accessToken,
+            refreshToken: tokens.refreshToken,
+            message: 'Token refreshed successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error('Error during token refresh:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to refresh token',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// list the logged-in devices of the current user
+export const getSessions = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return res.status(401).json({
+                success: false,
+                message: 'You are not authenticated. Please Signin'
+            });
+        }
+
+        const sessions = await sessionModel
+            .find({
+                user: userId,
+                revokedAt: { $exists: false },
+                expiresAt: { $gt: new Date() }
+            })
+            .sort({ lastUsedAt: -1 })
+            .select('userAgent ip lastUsedAt createdAt expiresAt');
+
+        return res.status(200).json({
+            success: true,
+            sessions: sessions.map((session) => ({
+                id: session._id,
+                userAgent: session.userAgent,
+                ip: session.ip,
+                lastUsedAt: session.lastUsedAt,
+                createdAt: session.createdAt,
+                expiresAt: session.expiresAt,
+                current: session.id === req.user?.sid
+            }))
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get sessions',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// log out one of the current user's devices
+export const deleteSession = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        const sessionId = req.params.id;
+
+        if (!userId) {
+            return res.status(401).json({
+                success: false,
+                message: 'You are not authenticated. Please Signin'
+            });
+        }
+
+        if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid session ID' });
+        }
+
+        const session = await sessionModel.findOne({
+            _id: sessionId,
+            user: userId,
+            revokedAt: { $exists: false }
+        });
+
+        if (!session) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Session not found' });
+        }
+
+        await revokeSession(session.id);
+
+        if (session.id === req.user?.sid) {
+            clearAuthCookies(res);
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: 'Session revoked successfully'
+        });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to revoke session',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -0,0 +1,219 @@
+import { ZodError } from 'zod';
+import { Request, Response } from 'express';
+import tagModel from '../models/tag.model.js';
+import userModel from '../models/user.model.js';
+import postModel from '../models/post.model.js';
+import { normalizeTag } from '../utils/tags.js';
+import { presentPosts } from '../utils/postPresenter.js';
+import { publishedFilter } from '../utils/postLifecycle.js';
+import { getCachedPage, TAG_POSTS } from '../utils/postCache.js';
+import { afterCursor, decodeCursor, toPage } from '../utils/pagination.js';
+import { paginationValidation } from '../validations/pagination.validation.js';
+import {
+    popularTagsValidation,
+    tagAutocompleteValidation
+} from '../validations/tag.validation.js';
+
+const escapeRegex = (text: string) =>
+    text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// most used tags
+export const getPopularTags = async (req: Request, res: Response) => {
+    try {
+        const { limit } = popularTagsValidation.parse(req.query);
+
+        const tags = await tagModel
+            .find({ postCount: { $gt: 0 } })
+            .sort({ postCount: -1 })
+            .limit(limit)
+            .select('name postCount');
+
+        return res.status(200).json({ success: true, tags });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get popular tags',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// tags starting with what the user typed so far
+export const autocompleteTags = async (req: Request, res: Response) => {
+    try {
+        const { q, limit } = tagAutocompleteValidation.parse(req.query);
+
+        if (!q) {
+            return res.status(200).json({ success: true, tags: [] });
+        }
+
+        const tags = await tagModel
+            .find({
+                name: { $regex: `^${escapeRegex(q)}` },
+                postCount: { $gt: 0 }
+            })
+            .sort({ postCount: -1 })
+            .limit(limit)
+            .select('name postCount');
+
+        return res.status(200).json({ success: true, tags });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to search tags',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// published posts with a tag, one page at a time
+export const getTagPosts = async (req: Request, res: Response) => {
+    try {
+        const name = normalizeTag(req.params.tag);
+        const { cursor, limit } = paginationValidation.parse(req.query);
+        const after = cursor ? decodeCursor(cursor) : null;
+
+        if (cursor && !after) {
+            return res
+                .status(400)
+                .json({ success: false, message: 'Invalid cursor' });
+        }
+
+        const tag = await tagModel.findOne({ name }).select('name postCount');
+
+        if (!tag) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Tag not found' });
+        }
+
+        const page = await getCachedPage(
+            TAG_POSTS(name),
+            `${cursor || 'first'}:${limit}`,
+            async () => {
+                const posts = await postModel
+                    .find({
+                        tags: name,
+                        ...publishedFilter,
+                        ...afterCursor(after, 'publishedAt')
+                    })
+                    .sort({ publishedAt: -1, _id: -1 })
+                    .limit(limit + 1)
+                    .populate('author', 'username profilePicture fullname')
+                    .populate('category', 'name');
+
+                return toPage(posts, limit, 'publishedAt');
+            }
+        );
+
+        return res.status(200).json({
+            success: true,
+            tag,
+            data: await presentPosts(page.items, req.user?.id),
+            nextCursor: page.nextCursor,
+            message: 'Posts retrieved successfully'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get tag posts',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// tags the logged-in user follows
+export const getFollowedTags = async (req: Request, res: Response) => {
+    try {
+        const user = await userModel
+            .findById(req.user?.id)
+            .select('followedTags');
+
+        if (!user) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'User not found' });
+        }
+
+        return res
+            .status(200)
+            .json({ success: true, tags: user.followedTags || [] });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to get followed tags',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// show posts with a tag in the logged-in user's feed
+export const followTag = async (req: Request, res: Response) => {
+    try {
+        const name = normalizeTag(req.params.tag);
+
+        if (!(await tagModel.exists({ name }))) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'Tag not found' });
+        }
+
+        await userModel.findByIdAndUpdate(req.user?.id, {
+            $addToSet: { followedTags: name }
+        });
+
+        return res
+            .status(200)
+            .json({ success: true, message: `You are now following #${name}` });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to follow tag',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+export const unfollowTag = async (req: Request, res: Response) => {
+    try {
+        const name = normalizeTag(req.params.tag);
+
+        await userModel.findByIdAndUpdate(req.user?.id, {
+            $pull: { followedTags: name }
+        });
+
+        return res
+            .status(200)
+            .json({ success: true, message: `You unfollowed #${name}` });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to unfollow tag',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -0,0 +1,189 @@
+import bcrypt from 'bcrypt';
+import { ZodError } from 'zod';
+import { Request, Response } from 'express';
+import userModel from '../models/user.model.js';
+import {
+    twoFactorCodeValidation,
+    disableTwoFactorValidation
+} from '../validations/user.validation.js';
+import {
+    verifyTotp,
+    buildOtpauthUri,
+    hashRecoveryCode,
+    generateTotpSecret,
+    generateRecoveryCodes
+} from '../utils/twoFactor.js';
+
+// start 2FA enrollment by generating a new secret
+export const setupTwoFactor = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+
+        const user = await userModel.findById(userId);
+        if (!user) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'User not found' });
+        }
+
+        if (!user.password) {
+            return res.status(400).json({
+                success: false,
+                message:
+                    'Two-factor authentication is only available for accounts with a password'
+            });
+        }
+
+        if (user.twoFactorEnabled) {
+            return res.status(400).json({
+                success: false,
+                message: 'Two-factor authentication is already enabled'
+            });
+        }
+
+        const secret = generateTotpSecret();
+
+        // Not active until the user confirms a code from their app
+        await userModel.findByIdAndUpdate(userId, { twoFactorSecret: secret });
+
+        return res.status(200).json({
+            success: true,
+            secret,
+            otpauthUri: buildOtpauthUri(secret, user.email),
+            message:
+                'Scan the QR code with your authenticator app, then confirm with a code'
+        });
+    } catch (error) {
+        console.error('Error during 2FA setup:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to set up two-factor authentication',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// confirm enrollment with a code from the authenticator app
+export const confirmTwoFactor = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        const { code } = twoFactorCodeValidation.parse(req.body);
+
+        const user = await userModel
+            .findById(userId)
+            .select('+twoFactorSecret');
+        if (!user) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'User not found' });
+        }
+
+        if (user.twoFactorEnabled) {
+            return res.status(400).json({
+                success: false,
+                message: 'Two-factor authentication is already enabled'
+            });
+        }
+
+        if (!user.twoFactorSecret) {
+            return res.status(400).json({
+                success: false,
+                message: 'Start two-factor setup before confirming it'
+            });
+        }
+
+        if (!(await verifyTotp(user.id, user.twoFactorSecret, code))) {
+            return res.status(401).json({
+                success: false,
+                message: 'Invalid authentication code. Please try again.'
+            });
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+
+        await userModel.findByIdAndUpdate(userId, {
+            twoFactorEnabled: true,
+            twoFactorRecoveryCodes: hashes
+        });
+
+        return res.status(200).json({
+            success: true,
+            recoveryCodes: codes,
+            message:
+                'Two-factor authentication enabled. Store these recovery codes somewhere safe, they will not be shown again.'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error('Error during 2FA confirmation:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to enable two-factor authentication',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+// turn 2FA off, requires the password and a current or recovery code
+export const disableTwoFactor = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        const { password, code } = disableTwoFactorValidation.parse(req.body);
+
+        const user = await userModel
+            .findById(userId)
+            .select('+twoFactorSecret +twoFactorRecoveryCodes');
+        if (!user) {
+            return res
+                .status(404)
+                .json({ success: false, message: 'User not found' });
+        }
+
+        if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+            return res.status(400).json({
+                success: false,
+                message: 'Two-factor authentication is not enabled'
+            });
+        }
+
+        const passwordMatch = await bcrypt.compare(password, user.password);
+
+        const codeMatch =
+            (await verifyTotp(user.id, user.twoFactorSecret, code)) ||
+            !!user.twoFactorRecoveryCodes?.includes(hashRecoveryCode(code));
+
+        if (!passwordMatch || !codeMatch) {
+            return res.status(401).json({
+                success: false,
+                message: 'Incorrect password or authentication code'
+            });
+        }
+
+        await userModel.findByIdAndUpdate(userId, {
+            twoFactorEnabled: false,
+            $unset: { twoFactorSecret: 1, twoFactorRecoveryCodes: 1 }
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: 'Two-factor authentication disabled'
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: error.errors.map((e) => e.message)
+            });
+        }
+        console.error('Error during 2FA disable:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to disable two-factor authentication',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -0,0 +1,158 @@
+import mongoose from 'mongoose';
+import { client } from '../lib/redis.js';
+import config from '../config/config.js';
+import userModel from '../models/user.model.js';
+import postModel from '../models/post.model.js';
+import migrationModel from '../models/migration.model.js';
+import tagModel from '../models/tag.model.js';
+import categoryModel from '../models/category.model.js';
+import paymentModel from '../models/payment.model.js';
+import { publishedFilter } from '../utils/postLifecycle.js';
+import { invalidatePostListings } from '../utils/postCache.js';
+import { queueRankingUpdate } from '../utils/rankings.js';
+import { normalizeTag, normalizeTags, syncTagCounts } from '../utils/tags.js';
+import { generateCategorySlug } from '../utils/categories.js';
+
+interface Migration {
+    name: string;
+    up: () => Promise<unknown>;
+}
+
+// Posts published before publishedAt existed went live when they were
+// created. Timelines were scored by creation time, so they are dropped and
+// rebuilt on their next read.
+const backfillPublishedAt = async () => {
+    await postModel.updateMany(
+        { ...publishedFilter, publishedAt: { $exists: false } },
+        [{ $set: { publishedAt: '$createdAt' } }]
+    );
+
+    for await (const key of client.scanIterator({ MATCH: 'feed:*' })) {
+        await client.del(key);
+    }
+};
+
+// Posts tagged before tags were normalized keep "#JavaScript" and
+// "javascript" apart. Their tags are normalized and every tag recounted,
+// and tags left without posts under their old spelling are removed.
+const normalizePostTags = async () => {
+    const tags = new Set<string>();
+    const changedPostIds = [];
+
+    for await (const post of postModel
+        .find({ 'tags.0': { $exists: true } })
+        .select('tags')
+        .cursor()) {
+        const normalized = normalizeTags(post.tags);
+        post.tags.forEach((tag) => tags.add(tag));
+        normalized.forEach((tag) => tags.add(tag));
+
+        if (normalized.join() !== post.tags.join()) {
+            await postModel.updateOne(
+                { _id: post._id },
+                { $set: { tags: normalized } }
+            );
+            changedPostIds.push(post._id);
+        }
+    }
+
+    await syncTagCounts([...tags]);
+    await tagModel.deleteMany({
+        name: { $in: [...tags].filter((tag) => normalizeTag(tag) !== tag) },
+        postCount: 0
+    });
+    await invalidatePostListings({ tags: [...tags] });
+    await queueRankingUpdate(changedPostIds);
+};
+
+// Categories created before slugs existed cannot be looked up by slug
+// until they are renamed
+const backfillCategorySlugs = async () => {
+    const categories = await categoryModel.find({ slug: null }).select('name');
+
+    for (const category of categories) {
+        category.slug = await generateCategorySlug(
+            category.name || '',
+            category._id
+        );
+        await category.save();
+    }
+};
+
+// Premium used to be a permanent flag. Users who have it get PREMIUM_DAYS
+// from now, and payments from before orders were stored count as paid.
+const backfillPremiumUntil = async () => {
+    await userModel.collection.updateMany(
+        { isPremium: true, premiumUntil: { $exists: false } },
+        {
+            $set: {
+                premiumUntil: new Date(
+                    Date.now() + config.PREMIUM_DAYS * 24 * 60 * 60 * 1000
+                )
+            }
+        }
+    );
+    await userModel.collection.updateMany(
+        { isPremium: { $exists: true } },
+        { $unset: { isPremium: '' } }
+    );
+    await paymentModel.updateMany(
+        { status: { $exists: false } },
+        { $set: { status: 'paid' } }
+    );
+};
+
+// Posts from before attachments existed only have an image. It becomes
+// their attachment, with an ID that edits can keep or reorder it by.
+const moveImagesToAttachments = async () => {
+    const posts = await postModel
+        .find({
+            image: { $nin: [null, ''] },
+            'attachments.0': { $exists: false }
+        })
+        .select('author coAuthors category tags image');
+
+    for (const post of posts) {
+        await postModel.updateOne(
+            { _id: post._id, 'attachments.0': { $exists: false } },
+            {
+                $set: {
+                    attachments: [
+                        {
+                            _id: new mongoose.Types.ObjectId(),
+                            url: post.image,
+                            type: 'image'
+                        }
+                    ]
+                }
+            }
+        );
+    }
+
+    await invalidatePostListings(...posts);
+};
+
+// Applied in order, each one once. Migrations must be safe to run again, a
+// failed one is retried on the next start.
+const migrations: Migration[] = [
+    { name: 'backfill-published-at', up: backfillPublishedAt },
+    { name: 'normalize-post-tags', up: normalizePostTags },
+    { name: 'backfill-category-slugs', up: backfillCategorySlugs },
+    { name: 'backfill-premium-until', up: backfillPremiumUntil },
+    { name: 'move-images-to-attachments', up: moveImagesToAttachments }
+];
+
+// Called once the database is connected, before the server starts
+export const runMigrations = async () => {
+    for (const migration of migrations) {
+        if (await migrationModel.exists({ name: migration.name })) continue;
+
+        await migration.up();
+        await migrationModel.updateOne(
+            { name: migration.name },
+            { $setOnInsert: { name: migration.name } },
+            { upsert: true }
+        );
+        console.log(`Applied migration ${migration.name}`);
+    }
+};
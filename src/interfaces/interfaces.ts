@@ -1,6 +1,8 @@
 import { Document, Schema } from 'mongoose';
 import { Request } from 'express';
 
+export type Role = 'user' | 'moderator' | 'admin';
+
 export interface User extends Document {
     username: string;
     fullname: string;
@@ -10,8 +12,26 @@ export interface User extends Document {
     profilePicture?: string;
     followers?: Schema.Types.ObjectId[];
     following?: Schema.Types.ObjectId[];
+    followedTags?: string[];
     bio?: string;
-    isPremium?: boolean;
+    premiumUntil?: Date;
+    role: Role;
+    isEmailVerified?: boolean;
+    twoFactorEnabled?: boolean;
+    twoFactorSecret?: string;
+    twoFactorRecoveryCodes?: string[];
+    deletionScheduledAt?: Date;
+}
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface Mailer {
+    send(message: MailMessage): Promise<void>;
 }
 
 // export interface CustomRequest extends Request {
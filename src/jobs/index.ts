@@ -0,0 +1,21 @@
+import { scheduleJob } from './scheduler.js';
+import { flushViews } from '../utils/views.js';
+import { computeRankings } from '../utils/rankings.js';
+import { publishDuePosts } from '../utils/postLifecycle.js';
+import { purgeDueAccounts } from '../utils/accountDeletion.js';
+import {
+    processPendingExports,
+    removeExpiredExports
+} from '../utils/dataExport.js';
+
+// Start the background jobs, called once the database is connected
+export const startJobs = () => {
+    scheduleJob('publish-scheduled-posts', 60 * 1000, publishDuePosts);
+    scheduleJob('flush-post-views', 60 * 1000, flushViews);
+    scheduleJob('compute-post-rankings', 10 * 60 * 1000, computeRankings, {
+        runImmediately: true
+    });
+    scheduleJob('purge-deleted-accounts', 60 * 60 * 1000, purgeDueAccounts);
+    scheduleJob('process-data-exports', 5 * 60 * 1000, processPendingExports);
+    scheduleJob('remove-expired-exports', 60 * 60 * 1000, removeExpiredExports);
+};
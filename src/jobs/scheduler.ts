@@ -0,0 +1,33 @@
+import { client } from '../lib/redis.js';
+
+const LOCK_KEY = (name: string) => `job:lock:${name}`;
+
+// Run a task every `intervalMs`, and right away with `runImmediately`. A
+// Redis lock makes sure only one server instance runs a given job per
+// interval.
+export const scheduleJob = (
+    name: string,
+    intervalMs: number,
+    task: () => Promise<unknown>,
+    { runImmediately = false } = {}
+) => {
+    const run = async () => {
+        try {
+            const acquired = await client.set(LOCK_KEY(name), '1', {
+                NX: true,
+                PX: intervalMs
+            });
+            if (!acquired) return;
+
+            await task();
+        } catch (error) {
+            console.error(`Job ${name} failed:`, error);
+        }
+    };
+
+    if (runImmediately) {
+        run();
+    }
+
+    return setInterval(run, intervalMs);
+};
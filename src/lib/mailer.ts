@@ -0,0 +1,65 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import config from '../config/config.js';
+import { Mailer, MailMessage } from '../interfaces/interfaces.js';
+
+// Delivers mail through an SMTP server
+export class SmtpMailer implements Mailer {
+    private transporter: Transporter;
+
+    constructor() {
+        this.transporter = nodemailer.createTransport({
+            host: config.SMTP_HOST,
+            port: config.SMTP_PORT,
+            secure: config.SMTP_PORT === 465,
+            auth: config.SMTP_USER
+                ? { user: config.SMTP_USER, pass: config.SMTP_PASS }
+                : undefined
+        });
+    }
+
+    async send(message: MailMessage) {
+        await this.transporter.sendMail({ from: config.MAIL_FROM, ...message });
+    }
+}
+
+// Writes mail to a directory or the log instead of sending it, for local
+// development and offline testing. Tests can also read it back from memory.
+export class OutboxMailer implements Mailer {
+    readonly messages: (MailMessage & { sentAt: Date })[] = [];
+
+    constructor(
+        private directory?: string,
+        private keepInMemory = false
+    ) {}
+
+    async send(message: MailMessage) {
+        const entry = { ...message, sentAt: new Date() };
+        if (this.keepInMemory) this.messages.push(entry);
+
+        if (this.directory) {
+            await fs.promises.mkdir(this.directory, { recursive: true });
+            await fs.promises.writeFile(
+                path.join(this.directory, `${Date.now()}-${message.to}.json`),
+                JSON.stringify(entry, null, 2)
+            );
+        } else {
+            console.log(`Mail to ${message.to}: ${message.subject}`);
+        }
+    }
+}
+
+const createMailer = (): Mailer => {
+    if (config.MAIL_TRANSPORT === 'smtp') return new SmtpMailer();
+
+    // Outbox mail carries verification and reset links, it must never stand
+    // in for real delivery
+    if (config.NODE_ENV === 'production') {
+        throw new Error('MAIL_TRANSPORT must be "smtp" in production');
+    }
+
+    return new OutboxMailer(config.MAIL_OUTBOX_DIR, config.NODE_ENV === 'test');
+};
+
+export const mailer = createMailer();
@@ -1,10 +1,19 @@
 import { NextFunction, Request, Response } from 'express';
 import jwt, { JwtPayload } from 'jsonwebtoken';
 import config from '../config/config.js';
+import { isAccessTokenRevoked } from '../utils/session.js';
+import {
+    TokenScope,
+    PERSONAL_TOKEN_PREFIX,
+    findPersonalAccessToken
+} from '../utils/accessToken.js';
 
 interface UserPayload extends JwtPayload {
     id: string;
-    token: string;
+    sid?: string;
+    ver?: number;
+    purpose?: string;
+    scopes?: TokenScope[];
 }
 
 declare global {
@@ -13,6 +22,51 @@ declare global {
     }
 }
 
+// Personal access tokens only work on routes that declared the scopes they
+// need with requireScope, and only if the token was granted all of them
+const checkPersonalAccessToken = async (
+    token: string,
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    const personalToken = await findPersonalAccessToken(token);
+
+    if (!personalToken) {
+        return res.status(401).json({
+            success: false,
+            message: 'This access token is invalid, expired or was revoked.'
+        });
+    }
+
+    const requiredScopes: TokenScope[] | undefined = res.locals.requiredScopes;
+    const grantedScopes = personalToken.scopes as TokenScope[];
+
+    if (
+        !requiredScopes ||
+        !requiredScopes.every((scope) => grantedScopes.includes(scope))
+    ) {
+        return res.status(403).json({
+            success: false,
+            message: requiredScopes
+                ? `This access token is missing the required scope: ${requiredScopes.join(', ')}`
+                : 'Access tokens cannot be used for this feature. Please log in instead.'
+        });
+    }
+
+    req.user = { id: personalToken.user.toString(), scopes: grantedScopes };
+    next();
+};
+
+// Declare the scopes a personal access token needs for a route.
+// Must come before checkLogin.
+export const requireScope =
+    (...scopes: TokenScope[]) =>
+    (req: Request, res: Response, next: NextFunction) => {
+        res.locals.requiredScopes = scopes;
+        next();
+    };
+
 export const checkLogin = async (
     req: Request,
     res: Response,
@@ -29,13 +83,16 @@ export const checkLogin = async (
             });
         }
 
+        const rawToken: string = token.replace('Bearer ', '');
+
+        if (rawToken.startsWith(PERSONAL_TOKEN_PREFIX)) {
+            return await checkPersonalAccessToken(rawToken, req, res, next);
+        }
+
+        let decoded: UserPayload;
+
         try {
-            const decoded = jwt.verify(
-                token.replace('Bearer ', ''),
-                config.JWT_SECRET
-            ) as UserPayload;
-            req.user = decoded;
-            next();
+            decoded = jwt.verify(rawToken, config.JWT_SECRET) as UserPayload;
         } catch (error) {
             return res.status(401).json({
                 success: false,
@@ -43,6 +100,28 @@ export const checkLogin = async (
                     'Your session has expired or the token is invalid. Please log in again to continue.'
             });
         }
+
+        // Purpose-bound tokens (e.g. a pending 2FA challenge) never grant access
+        if (decoded.purpose) {
+            return res.status(401).json({
+                success: false,
+                message:
+                    'Your session has expired or the token is invalid. Please log in again to continue.'
+            });
+        }
+
+        // Tokens stop working as soon as their session is revoked or the
+        // user logs out everywhere
+        if (await isAccessTokenRevoked(decoded)) {
+            return res.status(401).json({
+                success: false,
+                message:
+                    'This session has been logged out. Please log in again to continue.'
+            });
+        }
+
+        req.user = decoded;
+        next();
     } catch (error) {
         return res.status(500).json({
             success: false,
@@ -52,3 +131,30 @@ export const checkLogin = async (
         });
     }
 };
+
+// Identify the user on public routes when they are logged in. Requests
+// without a valid session, or with a personal access token, stay anonymous.
+export const optionalLogin = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    const token = req.cookies.token || req.headers.authorization;
+
+    if (token) {
+        try {
+            const decoded = jwt.verify(
+                token.replace('Bearer ', ''),
+                config.JWT_SECRET
+            ) as UserPayload;
+
+            if (!decoded.purpose && !(await isAccessTokenRevoked(decoded))) {
+                req.user = decoded;
+            }
+        } catch (error) {
+            // Treated as anonymous
+        }
+    }
+
+    next();
+};
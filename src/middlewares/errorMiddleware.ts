@@ -1,3 +1,4 @@
+import multer from 'multer';
 import { NextFunction, Request, Response } from 'express';
 
 const errorHandler = (
@@ -6,6 +7,11 @@ const errorHandler = (
     res: Response,
     next: NextFunction
 ) => {
+    // e.g. too many files or an unexpected file field
+    if (err instanceof multer.MulterError) {
+        return res.status(400).json({ error: err.message });
+    }
+
     console.error(err.stack);
     res.status(500).json({ error: err.message });
 };
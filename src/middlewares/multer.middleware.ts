@@ -1,4 +1,7 @@
+import fs from 'fs';
 import multer from 'multer';
+import { NextFunction, Request, Response } from 'express';
+import config from '../config/config.js';
 
 const storage = multer.diskStorage({
     destination: function (req, file, cb) {
@@ -10,6 +13,30 @@ const storage = multer.diskStorage({
     }
 });
 
-const upload = multer({ storage: storage });
+const upload = multer({
+    storage: storage,
+    limits: { fileSize: config.MAX_UPLOAD_MB * 1024 * 1024 }
+});
+
+// Remove uploaded files still on disk once the response is sent, e.g. when
+// the request failed validation before they were passed on to Cloudinary
+export const removeLeftoverUploads = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    res.on('finish', () => {
+        const files = [
+            ...(req.file ? [req.file] : []),
+            ...(Array.isArray(req.files) ? req.files : [])
+        ];
+
+        for (const file of files) {
+            fs.promises.rm(file.path, { force: true }).catch(() => {});
+        }
+    });
+
+    next();
+};
 
 export default upload;
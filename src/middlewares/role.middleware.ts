@@ -0,0 +1,43 @@
+import { NextFunction, Request, Response } from 'express';
+import { Role } from '../interfaces/interfaces.js';
+import { getActor, hasPermission, Permission } from '../utils/policy.js';
+
+// Must run after checkLogin
+const authorize =
+    (isAllowed: (role: Role) => boolean) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const actor = await getActor(req);
+
+            if (!actor) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'You are not authenticated. Please Signin'
+                });
+            }
+
+            if (!isAllowed(actor.role)) {
+                return res.status(403).json({
+                    success: false,
+                    message: 'You do not have permission to perform this action'
+                });
+            }
+
+            next();
+        } catch (error) {
+            return res.status(500).json({
+                success: false,
+                message:
+                    'We encountered an unexpected error while checking your permissions. Please try again later.',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    };
+
+export const requireRole = (...roles: Role[]) =>
+    authorize((role) => roles.includes(role));
+
+export const requirePermission = (...permissions: Permission[]) =>
+    authorize((role) =>
+        permissions.every((permission) => hasPermission(role, permission))
+    );
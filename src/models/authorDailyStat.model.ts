@@ -0,0 +1,27 @@
+import mongoose from 'mongoose';
+
+// How an author's audience changed on one day (UTC)
+const authorDailyStatSchema = new mongoose.Schema(
+    {
+        author: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        day: { type: Date, required: true },
+        followersGained: { type: Number, default: 0 },
+        followersLost: { type: Number, default: 0 },
+        // Likes received minus likes taken back
+        likes: { type: Number, default: 0 }
+    },
+    { timestamps: true }
+);
+
+authorDailyStatSchema.index({ author: 1, day: 1 }, { unique: true });
+
+const authorDailyStatModel = mongoose.model(
+    'AuthorDailyStat',
+    authorDailyStatSchema
+);
+
+export default authorDailyStatModel;
@@ -0,0 +1,27 @@
+import mongoose from 'mongoose';
+
+// A post the user saved for later
+const bookmarkSchema = new mongoose.Schema(
+    {
+        user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        post: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Post',
+            required: true,
+            index: true
+        }
+    },
+    { timestamps: true }
+);
+
+bookmarkSchema.index({ user: 1, post: 1 }, { unique: true });
+// Bookmarks are listed newest first
+bookmarkSchema.index({ user: 1, createdAt: -1, _id: -1 });
+
+const bookmarkModel = mongoose.model('Bookmark', bookmarkSchema);
+
+export default bookmarkModel;
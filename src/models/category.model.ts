@@ -6,6 +6,26 @@ const categorySchema = new mongoose.Schema(
             type: String,
             trim: true,
             unique: true
+        },
+        slug: {
+            type: String,
+            unique: true,
+            sparse: true
+        },
+        description: {
+            type: String,
+            trim: true
+        },
+        parent: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Category',
+            default: null,
+            index: true
+        },
+        // Number of published posts in the category
+        postCount: {
+            type: Number,
+            default: 0
         }
     },
     { timestamps: true }
@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+
+// An invitation from a post's author to write it together. Accepting adds
+// the invitee to the post's co-authors.
+const collaboratorInvitationSchema = new mongoose.Schema(
+    {
+        post: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Post',
+            required: true,
+            index: true
+        },
+        inviter: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        invitee: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        status: {
+            type: String,
+            enum: ['pending', 'accepted', 'declined'],
+            default: 'pending'
+        },
+        respondedAt: {
+            type: Date
+        }
+    },
+    { timestamps: true }
+);
+
+// One open invitation per post and user
+collaboratorInvitationSchema.index(
+    { post: 1, invitee: 1 },
+    { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+collaboratorInvitationSchema.index({ invitee: 1, status: 1, createdAt: -1 });
+
+const collaboratorInvitationModel = mongoose.model(
+    'CollaboratorInvitation',
+    collaboratorInvitationSchema
+);
+
+export default collaboratorInvitationModel;
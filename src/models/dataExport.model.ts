@@ -0,0 +1,27 @@
+import mongoose from 'mongoose';
+
+const dataExportSchema = new mongoose.Schema(
+    {
+        user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        status: {
+            type: String,
+            enum: ['pending', 'processing', 'ready', 'failed'],
+            default: 'pending'
+        },
+        filePath: { type: String },
+        // Hash of the secret in the download link
+        downloadTokenHash: { type: String },
+        expiresAt: { type: Date },
+        error: { type: String }
+    },
+    { timestamps: true }
+);
+
+const dataExportModel = mongoose.model('DataExport', dataExportSchema);
+
+export default dataExportModel;
@@ -0,0 +1,17 @@
+import mongoose from 'mongoose';
+
+// A one-off data migration that has been applied
+const migrationSchema = new mongoose.Schema(
+    {
+        name: {
+            type: String,
+            required: true,
+            unique: true
+        }
+    },
+    { timestamps: true }
+);
+
+const migrationModel = mongoose.model('Migration', migrationSchema);
+
+export default migrationModel;
@@ -1,21 +1,44 @@
 import mongoose from 'mongoose';
 
+// A premium purchase, from the Razorpay order created for it until it is
+// paid. Payments from before orders were stored have no status and are paid.
 const PaymentSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        index: true
+    },
+    // In the currency's smallest unit, as Razorpay takes it
+    amount: {
+        type: Number
+    },
+    currency: {
+        type: String
+    },
+    status: {
+        type: String,
+        enum: ['created', 'paid']
+    },
     razorpay_order_id: {
         type: String,
-        required: true
+        required: true,
+        unique: true
     },
+    // A payment unlocks premium once
     razorpay_payment_id: {
         type: String,
-        required: true
+        unique: true,
+        sparse: true
     },
     razorpay_signature: {
-        type: String,
-        required: true
+        type: String
     },
     date: {
         type: Date,
         default: Date.now
+    },
+    paidAt: {
+        type: Date
     }
 });
 
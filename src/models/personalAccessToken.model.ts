@@ -0,0 +1,36 @@
+import mongoose from 'mongoose';
+
+const personalAccessTokenSchema = new mongoose.Schema(
+    {
+        user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        name: {
+            type: String,
+            trim: true,
+            required: true
+        },
+        // Only a hash is stored, the token itself is shown once on creation
+        tokenHash: {
+            type: String,
+            required: true,
+            unique: true
+        },
+        // Start of the token, so users can tell their tokens apart
+        prefix: { type: String, required: true },
+        scopes: [{ type: String }],
+        expiresAt: { type: Date },
+        lastUsedAt: { type: Date }
+    },
+    { timestamps: true }
+);
+
+const personalAccessTokenModel = mongoose.model(
+    'PersonalAccessToken',
+    personalAccessTokenSchema
+);
+
+export default personalAccessTokenModel;
@@ -1,26 +1,110 @@
 import mongoose from 'mongoose';
 
+// Images, videos and other files shown with a post, in display order
+const attachmentSchema = new mongoose.Schema({
+    url: { type: String, required: true },
+    type: {
+        type: String,
+        enum: ['image', 'video', 'file'],
+        default: 'image'
+    },
+    alt: { type: String, trim: true },
+    caption: { type: String, trim: true },
+    width: { type: Number },
+    height: { type: Number }
+});
+
 const postSchema = new mongoose.Schema(
     {
+        title: {
+            type: String,
+            trim: true
+        },
+        // Unique, URL friendly version of the title
+        slug: {
+            type: String,
+            unique: true,
+            sparse: true
+        },
         content: {
             type: String,
             trim: true,
         },
+        // Sanitized HTML rendered from the Markdown content, and the
+        // stats derived from it
+        contentHtml: { type: String },
+        excerpt: { type: String },
+        wordCount: { type: Number, default: 0 },
+        readingTime: { type: Number, default: 0 }, // minutes
         author: {
             type: mongoose.Schema.Types.ObjectId,
             ref: 'User'
         },
+        // Collaborators who accepted an invitation. They can edit the post,
+        // only the author can delete it.
+        coAuthors: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
+        // The first image attachment, for clients that show a single image
         image: { type: String },
+        attachments: [attachmentSchema],
         likes: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
         tags: [{ type: String, trim: true }],
         category: {
             type: mongoose.Schema.Types.ObjectId,
             ref: 'Category'
-        }
+        },
+        status: {
+            type: String,
+            enum: ['draft', 'scheduled', 'published', 'archived'],
+            default: 'published'
+        },
+        // When a scheduled post goes live
+        publishAt: { type: Date },
+        // When the post went live. Public listings, feeds and rankings are
+        // ordered by it.
+        publishedAt: { type: Date },
+        // Set once the title or content is changed after creation
+        edited: { type: Boolean, default: false },
+        editedAt: { type: Date },
+        // Members-only: readers without premium get a preview
+        premium: { type: Boolean, default: false },
+        // Reposts share another post as is, quotes add commentary to it.
+        // Posts without a kind are regular posts.
+        kind: {
+            type: String,
+            enum: ['post', 'repost', 'quote'],
+            default: 'post'
+        },
+        repostOf: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Post',
+            index: true
+        },
+        // Number of published reposts and quotes of this post
+        repostCount: { type: Number, default: 0 },
+        // Deduplicated views, flushed from Redis by a background job
+        views: { type: Number, default: 0 }
     },
     { timestamps: true }
 );
 
+postSchema.index({ status: 1, publishAt: 1 });
+
+// Cursor pagination walks public listings newest first by publishedAt, then
+// _id. The authors' own listings, drafts included, go by createdAt.
+postSchema.index({ status: 1, publishedAt: -1, _id: -1 });
+postSchema.index({ category: 1, publishedAt: -1, _id: -1 });
+postSchema.index({ author: 1, publishedAt: -1, _id: -1 });
+postSchema.index({ coAuthors: 1, publishedAt: -1, _id: -1 });
+postSchema.index({ tags: 1, publishedAt: -1, _id: -1 });
+postSchema.index({ author: 1, createdAt: -1, _id: -1 });
+postSchema.index({ coAuthors: 1, createdAt: -1, _id: -1 });
+
+// A user can repost a post once, but quote it any number of times
+postSchema.index(
+    { author: 1, repostOf: 1 },
+    { unique: true, partialFilterExpression: { kind: 'repost' } }
+);
+
 const postModel = mongoose.model('Post', postSchema);
 
 export default postModel;
@@ -0,0 +1,26 @@
+import mongoose from 'mongoose';
+
+// A saved version of a post's title and content
+const postRevisionSchema = new mongoose.Schema(
+    {
+        post: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Post',
+            required: true
+        },
+        editor: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        version: { type: Number, required: true },
+        title: { type: String },
+        content: { type: String }
+    },
+    { timestamps: true }
+);
+
+postRevisionSchema.index({ post: 1, version: 1 }, { unique: true });
+
+const postRevisionModel = mongoose.model('PostRevision', postRevisionSchema);
+
+export default postRevisionModel;
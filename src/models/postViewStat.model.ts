@@ -0,0 +1,29 @@
+import mongoose from 'mongoose';
+
+// Views of a post on one day (UTC) coming from one referrer
+const postViewStatSchema = new mongoose.Schema(
+    {
+        post: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Post',
+            required: true
+        },
+        author: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        day: { type: Date, required: true },
+        // Host name of the referring site, or "direct"
+        referrer: { type: String, required: true },
+        views: { type: Number, default: 0 }
+    },
+    { timestamps: true }
+);
+
+postViewStatSchema.index({ post: 1, day: 1, referrer: 1 }, { unique: true });
+postViewStatSchema.index({ author: 1, day: 1 });
+
+const postViewStatModel = mongoose.model('PostViewStat', postViewStatSchema);
+
+export default postViewStatModel;
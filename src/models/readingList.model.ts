@@ -0,0 +1,40 @@
+import mongoose from 'mongoose';
+
+// A named, ordered collection of posts put together by a user
+const readingListSchema = new mongoose.Schema(
+    {
+        owner: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        name: {
+            type: String,
+            trim: true,
+            required: true
+        },
+        description: {
+            type: String,
+            trim: true
+        },
+        // Public lists can be viewed by anyone with the link
+        visibility: {
+            type: String,
+            enum: ['private', 'public'],
+            default: 'private'
+        },
+        posts: [
+            {
+                type: mongoose.Schema.Types.ObjectId,
+                ref: 'Post',
+                index: true
+            }
+        ]
+    },
+    { timestamps: true }
+);
+
+const readingListModel = mongoose.model('ReadingList', readingListSchema);
+
+export default readingListModel;
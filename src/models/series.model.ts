@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+
+// A multi-part set of posts by one author, read in order
+const seriesSchema = new mongoose.Schema(
+    {
+        owner: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        title: {
+            type: String,
+            trim: true,
+            required: true
+        },
+        slug: {
+            type: String,
+            unique: true,
+            sparse: true
+        },
+        description: {
+            type: String,
+            trim: true
+        },
+        posts: [
+            {
+                type: mongoose.Schema.Types.ObjectId,
+                ref: 'Post'
+            }
+        ]
+    },
+    { timestamps: true }
+);
+
+// A post can be part of one series only. Series without posts are left out
+// of the index.
+seriesSchema.index(
+    { posts: 1 },
+    {
+        unique: true,
+        partialFilterExpression: { posts: { $type: 'objectId' } }
+    }
+);
+
+const seriesModel = mongoose.model('Series', seriesSchema);
+
+export default seriesModel;
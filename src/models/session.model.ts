@@ -0,0 +1,39 @@
+import mongoose from 'mongoose';
+
+// Each session is one logged-in device and one refresh-token family:
+// the refresh token is rotated on every use. The latest hash is the valid
+// one, a few earlier ones are kept to recognise replayed tokens.
+const sessionSchema = new mongoose.Schema(
+    {
+        user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        refreshTokenHash: {
+            type: String,
+            required: true
+        },
+        previousTokenHashes: [{ type: String }],
+        userAgent: { type: String, trim: true },
+        ip: { type: String, trim: true },
+        lastUsedAt: {
+            type: Date,
+            default: Date.now
+        },
+        expiresAt: {
+            type: Date,
+            required: true
+        },
+        revokedAt: { type: Date }
+    },
+    { timestamps: true }
+);
+
+// Let MongoDB drop sessions once their refresh token has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const sessionModel = mongoose.model('Session', sessionSchema);
+
+export default sessionModel;
@@ -0,0 +1,23 @@
+import mongoose from 'mongoose';
+
+const tagSchema = new mongoose.Schema(
+    {
+        // Normalized: lowercase, no spaces or leading #
+        name: {
+            type: String,
+            required: true,
+            unique: true
+        },
+        // Number of published posts with the tag
+        postCount: {
+            type: Number,
+            default: 0,
+            index: true
+        }
+    },
+    { timestamps: true }
+);
+
+const tagModel = mongoose.model('Tag', tagSchema);
+
+export default tagModel;
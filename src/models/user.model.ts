@@ -40,10 +40,35 @@ const userSchema = new mongoose.Schema<User>(
         },
         followers: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
         following: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
+        followedTags: [{ type: String }],
         bio: { type: String, trim: true },
-        isPremium: {
+        // Premium lasts until this date, extended by every payment
+        premiumUntil: { type: Date },
+        role: {
+            type: String,
+            enum: ['user', 'moderator', 'admin'],
+            default: 'user'
+        },
+        isEmailVerified: {
+            type: Boolean,
+            default: false
+        },
+        twoFactorEnabled: {
             type: Boolean,
             default: false
+        },
+        twoFactorSecret: {
+            type: String,
+            select: false
+        },
+        twoFactorRecoveryCodes: {
+            type: [String],
+            select: false
+        },
+        // Set while the account waits out its deletion grace period
+        deletionScheduledAt: {
+            type: Date,
+            index: true
         }
     },
     { timestamps: true }
@@ -0,0 +1,15 @@
+import express from 'express';
+import { getUsers, updateUserRole, deleteUser } from '../controllers/admin.js';
+import { checkLogin } from '../middlewares/auth.middleware.js';
+import { requirePermission } from '../middlewares/role.middleware.js';
+
+const adminRouter = express.Router();
+
+// Every admin route requires a logged-in user allowed to manage users
+adminRouter.use(checkLogin, requirePermission('users:manage'));
+
+adminRouter.get('/users', getUsers);
+adminRouter.patch('/users/:id/role', updateUserRole);
+adminRouter.delete('/users/:id', deleteUser);
+
+export default adminRouter;
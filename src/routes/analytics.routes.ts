@@ -0,0 +1,14 @@
+import express from 'express';
+import { getMyAnalytics } from '../controllers/analytics.js';
+import { checkLogin, requireScope } from '../middlewares/auth.middleware.js';
+
+const analyticsRouter = express.Router();
+
+analyticsRouter.get(
+    '/analytics',
+    requireScope('analytics:read'),
+    checkLogin,
+    getMyAnalytics
+);
+
+export default analyticsRouter;
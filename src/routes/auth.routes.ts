@@ -1,34 +1,82 @@
 import express from 'express';
 import passport from 'passport';
+import config from '../config/config.js';
 import { checkLogin } from '../middlewares/auth.middleware.js';
-import { signup, signin, logout, changePassword, deleteAccount } from '../controllers/auth.js';
+import {
+    signup,
+    signin,
+    logout,
+    logoutEverywhere,
+    changePassword,
+    deleteAccount,
+    setPassword,
+    verifyEmail,
+    resendVerificationEmail,
+    forgotPassword,
+    resetPassword,
+    verifyTwoFactor
+} from '../controllers/auth.js';
+import {
+    googleAuth,
+    linkGoogle,
+    unlinkGoogle,
+    googleCallback
+} from '../controllers/oauth.js';
+import { refresh, getSessions, deleteSession } from '../controllers/session.js';
+import {
+    createAccessToken,
+    getAccessTokens,
+    deleteAccessToken
+} from '../controllers/accessToken.js';
+import {
+    setupTwoFactor,
+    confirmTwoFactor,
+    disableTwoFactor
+} from '../controllers/twoFactor.js';
 
 const authRouter = express.Router();
 
 authRouter.post('/signup', signup);
 authRouter.post('/signin', signin);
 authRouter.get('/logout', logout);
+authRouter.post('/logout-all', checkLogin, logoutEverywhere);
 authRouter.put('/change-password', checkLogin, changePassword);
+authRouter.post('/set-password', checkLogin, setPassword);
 authRouter.delete('/delete-account', checkLogin, deleteAccount);
 
+// Email verification and password reset routes
+authRouter.post('/verify-email', verifyEmail);
+authRouter.post('/resend-verification', checkLogin, resendVerificationEmail);
+authRouter.post('/forgot-password', forgotPassword);
+authRouter.post('/reset-password', resetPassword);
+
+// Two-factor authentication routes
+authRouter.post('/2fa/verify', verifyTwoFactor);
+authRouter.post('/2fa/setup', checkLogin, setupTwoFactor);
+authRouter.post('/2fa/confirm', checkLogin, confirmTwoFactor);
+authRouter.post('/2fa/disable', checkLogin, disableTwoFactor);
+
+// Session routes
+authRouter.post('/refresh', refresh);
+authRouter.get('/sessions', checkLogin, getSessions);
+authRouter.delete('/sessions/:id', checkLogin, deleteSession);
+
+// Personal access token routes
+authRouter.post('/tokens', checkLogin, createAccessToken);
+authRouter.get('/tokens', checkLogin, getAccessTokens);
+authRouter.delete('/tokens/:id', checkLogin, deleteAccessToken);
+
 // Google OAuth routes
-authRouter.get(
-    '/google',
-    passport.authenticate('google', {
-        scope: ['profile', 'email'],
-        session: false
-    })
-);
+authRouter.get('/google', googleAuth);
+authRouter.get('/google/link', checkLogin, linkGoogle);
+authRouter.delete('/google/link', checkLogin, unlinkGoogle);
 authRouter.get(
     '/google/callback',
     passport.authenticate('google', {
-        failureRedirect: '/error',
+        failureRedirect: `${config.OAUTH_REDIRECT_URLS[0]}?error=google_auth_failed`,
         session: false
     }),
-    (req, res) => {
-        const token = req.user?.token;
-        res.redirect(`https://softcoreapp.vercel.app/google/callback/?token=${token}`);
-    }
+    googleCallback
 );
 
 export default authRouter;
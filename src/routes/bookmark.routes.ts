@@ -0,0 +1,38 @@
+import express from 'express';
+import {
+    getBookmarks,
+    addBookmark,
+    removeBookmark
+} from '../controllers/bookmark.js';
+import { getMyReadingLists } from '../controllers/readingList.js';
+import { checkLogin, requireScope } from '../middlewares/auth.middleware.js';
+
+const bookmarkRouter = express.Router();
+
+bookmarkRouter.get(
+    '/bookmarks',
+    requireScope('bookmarks:read'),
+    checkLogin,
+    getBookmarks
+);
+bookmarkRouter.post(
+    '/bookmarks/:postId',
+    requireScope('bookmarks:write'),
+    checkLogin,
+    addBookmark
+);
+bookmarkRouter.delete(
+    '/bookmarks/:postId',
+    requireScope('bookmarks:write'),
+    checkLogin,
+    removeBookmark
+);
+
+bookmarkRouter.get(
+    '/lists',
+    requireScope('bookmarks:read'),
+    checkLogin,
+    getMyReadingLists
+);
+
+export default bookmarkRouter;
@@ -0,0 +1,26 @@
+import express from 'express';
+import {
+    getCategories,
+    getCategory,
+    createCategory,
+    updateCategory,
+    deleteCategory,
+    mergeCategory
+} from '../controllers/category.js';
+import { checkLogin } from '../middlewares/auth.middleware.js';
+import { requirePermission } from '../middlewares/role.middleware.js';
+
+const categoryRouter = express.Router();
+
+categoryRouter.get('/', getCategories);
+categoryRouter.get('/:category', getCategory);
+
+// Changing categories is limited to admins
+const canManage = [checkLogin, requirePermission('categories:manage')];
+
+categoryRouter.post('/', ...canManage, createCategory);
+categoryRouter.patch('/:category', ...canManage, updateCategory);
+categoryRouter.delete('/:category', ...canManage, deleteCategory);
+categoryRouter.post('/:category/merge', ...canManage, mergeCategory);
+
+export default categoryRouter;
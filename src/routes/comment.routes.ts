@@ -5,13 +5,28 @@ import {
     updateComment,
     deleteComments
 } from '../controllers/comment.js';
-import { checkLogin } from '../middlewares/auth.middleware.js';
+import { checkLogin, requireScope } from '../middlewares/auth.middleware.js';
 
 const commentRouter = express.Router();
 
-commentRouter.post('/post/:postId', checkLogin, createComment);
+commentRouter.post(
+    '/post/:postId',
+    requireScope('comments:write'),
+    checkLogin,
+    createComment
+);
 commentRouter.get('/:postId', getComments);
-commentRouter.patch('/:commentId', checkLogin, updateComment);
-commentRouter.delete('/:commentId', checkLogin, deleteComments);
+commentRouter.patch(
+    '/:commentId',
+    requireScope('comments:write'),
+    checkLogin,
+    updateComment
+);
+commentRouter.delete(
+    '/:commentId',
+    requireScope('comments:write'),
+    checkLogin,
+    deleteComments
+);
 
 export default commentRouter;
@@ -0,0 +1,10 @@
+import express from 'express';
+import { getFeed } from '../controllers/feed.js';
+import { checkLogin } from '../middlewares/auth.middleware.js';
+
+const feedRouter = express.Router();
+
+// Home feed of the logged-in user
+feedRouter.get('/', checkLogin, getFeed);
+
+export default feedRouter;
@@ -8,16 +8,41 @@ import {
     getUserFollowingList,
     getUserFollowersList
 } from '../controllers/follow.js';
-import { checkLogin } from '../middlewares/auth.middleware.js';
+import { checkLogin, requireScope } from '../middlewares/auth.middleware.js';
 
 const followRouter = express.Router();
 
-followRouter.post('/follow/:id', checkLogin, followUser);
-followRouter.post('/unfollow/:id', checkLogin, unfollowUser);
-followRouter.get('/following', checkLogin, getFollowingList);
-followRouter.get('/followers', checkLogin, getFollowersList);
+followRouter.post(
+    '/follow/:id',
+    requireScope('follows:write'),
+    checkLogin,
+    followUser
+);
+followRouter.post(
+    '/unfollow/:id',
+    requireScope('follows:write'),
+    checkLogin,
+    unfollowUser
+);
+followRouter.get(
+    '/following',
+    requireScope('follows:read'),
+    checkLogin,
+    getFollowingList
+);
+followRouter.get(
+    '/followers',
+    requireScope('follows:read'),
+    checkLogin,
+    getFollowersList
+);
 followRouter.get('/following/:id', getUserFollowingList);
 followRouter.get('/followers/:id', getUserFollowersList);
-followRouter.get('/following-status/:id', checkLogin, getFollowingStatus);
+followRouter.get(
+    '/following-status/:id',
+    requireScope('follows:read'),
+    checkLogin,
+    getFollowingStatus
+);
 
 export default followRouter;
@@ -0,0 +1,31 @@
+import express from 'express';
+import {
+    getMyInvitations,
+    acceptInvitation,
+    declineInvitation
+} from '../controllers/collaborator.js';
+import { checkLogin, requireScope } from '../middlewares/auth.middleware.js';
+
+const invitationRouter = express.Router();
+
+// Invitations to co-author other people's posts
+invitationRouter.get(
+    '/invitations',
+    requireScope('posts:write'),
+    checkLogin,
+    getMyInvitations
+);
+invitationRouter.post(
+    '/invitations/:id/accept',
+    requireScope('posts:write'),
+    checkLogin,
+    acceptInvitation
+);
+invitationRouter.post(
+    '/invitations/:id/decline',
+    requireScope('posts:write'),
+    checkLogin,
+    declineInvitation
+);
+
+export default invitationRouter;
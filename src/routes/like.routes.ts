@@ -1,9 +1,14 @@
 import express from 'express';
 import { like } from '../controllers/like.js';
-import { checkLogin } from '../middlewares/auth.middleware.js';
+import { checkLogin, requireScope } from '../middlewares/auth.middleware.js';
 
 const likeRouter = express.Router();
 
-likeRouter.post('/:postId/toggle-like', checkLogin, like)
+likeRouter.post(
+    '/:postId/toggle-like',
+    requireScope('likes:write'),
+    checkLogin,
+    like
+);
 
 export default likeRouter;
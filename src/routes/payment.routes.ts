@@ -1,9 +1,10 @@
 import express from 'express';
 import { createOrder, verifyOrder } from '../controllers/payment.js';
+import { checkLogin } from '../middlewares/auth.middleware.js';
 
 const paymentRoute = express.Router();
 
-paymentRoute.post('/create-order', createOrder);
-paymentRoute.post('/payment/success', verifyOrder);
+paymentRoute.post('/create-order', checkLogin, createOrder);
+paymentRoute.post('/payment/success', checkLogin, verifyOrder);
 
 export default paymentRoute;
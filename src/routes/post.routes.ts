@@ -1,35 +1,150 @@
 import express from 'express';
-import upload from '../middlewares/multer.middleware.js';
+import upload, {
+    removeLeftoverUploads
+} from '../middlewares/multer.middleware.js';
 import {
     createPost,
     getAllPosts,
     updatePost,
     deletePost,
     getPostsById,
-    getPostsByCategory
+    getPostBySlug,
+    getPostsByCategory,
+    getMyDrafts,
+    publishPost,
+    unpublishPost
 } from '../controllers/post.js';
+import {
+    getRevisions,
+    diffRevisions,
+    restoreRevision
+} from '../controllers/postRevision.js';
+import { getTrendingPosts, getTopPosts } from '../controllers/ranking.js';
+import { createRepost, removeRepost } from '../controllers/repost.js';
+import {
+    inviteCollaborator,
+    removeCollaborator
+} from '../controllers/collaborator.js';
+import { MAX_ATTACHMENTS } from '../utils/attachments.js';
 
 //middlware to check login
-import { checkLogin } from '../middlewares/auth.middleware.js';
+import {
+    checkLogin,
+    optionalLogin,
+    requireScope
+} from '../middlewares/auth.middleware.js';
 
 const postRouter = express.Router();
 
 // Route to create a new blog post, requires user to be logged in
-postRouter.post('/create', checkLogin, upload.single('image'), createPost);
+postRouter.post(
+    '/create',
+    requireScope('posts:write'),
+    checkLogin,
+    removeLeftoverUploads,
+    upload.array('attachments', MAX_ATTACHMENTS),
+    createPost
+);
+
+// Route to list the logged-in user's drafts and scheduled posts
+postRouter.get('/drafts', requireScope('posts:write'), checkLogin, getMyDrafts);
 
 // Route to get all blog posts
-postRouter.get('/allpost', getAllPosts);
+postRouter.get('/allpost', optionalLogin, getAllPosts);
+
+// Routes to get ranked posts, filterable by category or tag
+postRouter.get('/trending', optionalLogin, getTrendingPosts);
+postRouter.get('/top', optionalLogin, getTopPosts);
 
 // Get one post by ID
-postRouter.get('/post/:postId', getPostsById);
+postRouter.get('/post/:postId', optionalLogin, getPostsById);
+
+// Get one post by its slug
+postRouter.get('/slug/:slug', optionalLogin, getPostBySlug);
 
 // Route to get posts by category
-postRouter.get('/category/:categoryId', getPostsByCategory);
+postRouter.get('/category/:category', optionalLogin, getPostsByCategory);
 
 // Route to update a blog post by ID, requires user to be logged in
-postRouter.patch('/update/:id', checkLogin, updatePost);
+postRouter.patch(
+    '/update/:id',
+    requireScope('posts:write'),
+    checkLogin,
+    removeLeftoverUploads,
+    upload.array('attachments', MAX_ATTACHMENTS),
+    updatePost
+);
 
 // Route to delete a blog post by ID, requires user to be logged in
-postRouter.delete('/delete/:id', checkLogin, deletePost);
+postRouter.delete(
+    '/delete/:id',
+    requireScope('posts:write'),
+    checkLogin,
+    deletePost
+);
+
+// Route to publish or schedule a draft, requires user to be logged in
+postRouter.patch(
+    '/publish/:id',
+    requireScope('posts:write'),
+    checkLogin,
+    publishPost
+);
+
+// Route to move a post back to drafts or archive it
+postRouter.patch(
+    '/unpublish/:id',
+    requireScope('posts:write'),
+    checkLogin,
+    unpublishPost
+);
+
+// Routes for the edit history of a post, for its author and moderators
+postRouter.get(
+    '/:id/revisions',
+    requireScope('posts:write'),
+    checkLogin,
+    getRevisions
+);
+postRouter.get(
+    '/:id/revisions/diff',
+    requireScope('posts:write'),
+    checkLogin,
+    diffRevisions
+);
+postRouter.post(
+    '/:id/revisions/:version/restore',
+    requireScope('posts:write'),
+    checkLogin,
+    restoreRevision
+);
+
+// Routes to repost or quote a post, and to undo a repost
+postRouter.post(
+    '/:id/repost',
+    requireScope('posts:write'),
+    checkLogin,
+    createRepost
+);
+postRouter.delete(
+    '/:id/repost',
+    requireScope('posts:write'),
+    checkLogin,
+    removeRepost
+);
+
+// Routes to invite co-authors, and to remove them or leave a post
+postRouter.post(
+    '/:id/collaborators',
+    requireScope('posts:write'),
+    checkLogin,
+    inviteCollaborator
+);
+postRouter.delete(
+    '/:id/collaborators/:userId',
+    requireScope('posts:write'),
+    checkLogin,
+    removeCollaborator
+);
 
 export default postRouter;
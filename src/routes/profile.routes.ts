@@ -5,16 +5,36 @@ import {
     updateProfile,
     getUsersProfile
 } from '../controllers/profile.js';
-import { checkLogin } from '../middlewares/auth.middleware.js';
+import {
+    requestDataExport,
+    getDataExport,
+    downloadDataExport
+} from '../controllers/dataExport.js';
+import {
+    checkLogin,
+    optionalLogin,
+    requireScope
+} from '../middlewares/auth.middleware.js';
 
 const profileRouter = express.Router();
 
+// export all of the user's data as a zip archive
+profileRouter.post('/export', checkLogin, requestDataExport);
+profileRouter.get('/export/:id', checkLogin, getDataExport);
+profileRouter.get('/export/:id/download', downloadDataExport);
+
 // get user profile
-profileRouter.get('/:id', checkLogin, getProfile);
+profileRouter.get('/:id', requireScope('profile:read'), checkLogin, getProfile);
 
 // update user profile
-profileRouter.patch('/:id', checkLogin, upload.single('image'), updateProfile);
+profileRouter.patch(
+    '/:id',
+    requireScope('profile:write'),
+    checkLogin,
+    upload.single('image'),
+    updateProfile
+);
 
-profileRouter.get('/users/:id', getUsersProfile);
+profileRouter.get('/users/:id', optionalLogin, getUsersProfile);
 
 export default profileRouter;
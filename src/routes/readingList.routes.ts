@@ -0,0 +1,62 @@
+import express from 'express';
+import {
+    getUserReadingLists,
+    getReadingList,
+    createReadingList,
+    updateReadingList,
+    deleteReadingList,
+    addPostToReadingList,
+    removePostFromReadingList,
+    reorderReadingList
+} from '../controllers/readingList.js';
+import {
+    checkLogin,
+    optionalLogin,
+    requireScope
+} from '../middlewares/auth.middleware.js';
+
+const readingListRouter = express.Router();
+
+readingListRouter.get('/user/:userId', getUserReadingLists);
+readingListRouter.get('/:id', optionalLogin, getReadingList);
+
+readingListRouter.post(
+    '/',
+    requireScope('bookmarks:write'),
+    checkLogin,
+    createReadingList
+);
+readingListRouter.patch(
+    '/:id',
+    requireScope('bookmarks:write'),
+    checkLogin,
+    updateReadingList
+);
+readingListRouter.delete(
+    '/:id',
+    requireScope('bookmarks:write'),
+    checkLogin,
+    deleteReadingList
+);
+
+// Posts in a list: add one, remove one, or reorder all of them
+readingListRouter.post(
+    '/:id/posts',
+    requireScope('bookmarks:write'),
+    checkLogin,
+    addPostToReadingList
+);
+readingListRouter.delete(
+    '/:id/posts/:postId',
+    requireScope('bookmarks:write'),
+    checkLogin,
+    removePostFromReadingList
+);
+readingListRouter.put(
+    '/:id/posts',
+    requireScope('bookmarks:write'),
+    checkLogin,
+    reorderReadingList
+);
+
+export default readingListRouter;
@@ -0,0 +1,57 @@
+import express from 'express';
+import {
+    getSeries,
+    getUserSeriesList,
+    createSeries,
+    updateSeries,
+    deleteSeries,
+    addPostToSeries,
+    removePostFromSeries,
+    reorderSeries
+} from '../controllers/series.js';
+import {
+    checkLogin,
+    optionalLogin,
+    requireScope
+} from '../middlewares/auth.middleware.js';
+
+const seriesRouter = express.Router();
+
+seriesRouter.get('/user/:userId', optionalLogin, getUserSeriesList);
+seriesRouter.get('/:id', optionalLogin, getSeries);
+
+seriesRouter.post('/', requireScope('posts:write'), checkLogin, createSeries);
+seriesRouter.patch(
+    '/:id',
+    requireScope('posts:write'),
+    checkLogin,
+    updateSeries
+);
+seriesRouter.delete(
+    '/:id',
+    requireScope('posts:write'),
+    checkLogin,
+    deleteSeries
+);
+
+// Posts in a series: add one, remove one, or reorder all of them
+seriesRouter.post(
+    '/:id/posts',
+    requireScope('posts:write'),
+    checkLogin,
+    addPostToSeries
+);
+seriesRouter.delete(
+    '/:id/posts/:postId',
+    requireScope('posts:write'),
+    checkLogin,
+    removePostFromSeries
+);
+seriesRouter.put(
+    '/:id/posts',
+    requireScope('posts:write'),
+    checkLogin,
+    reorderSeries
+);
+
+export default seriesRouter;
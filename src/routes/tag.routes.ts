@@ -0,0 +1,40 @@
+import express from 'express';
+import {
+    getPopularTags,
+    autocompleteTags,
+    getTagPosts,
+    getFollowedTags,
+    followTag,
+    unfollowTag
+} from '../controllers/tag.js';
+import {
+    checkLogin,
+    optionalLogin,
+    requireScope
+} from '../middlewares/auth.middleware.js';
+
+const tagRouter = express.Router();
+
+tagRouter.get('/popular', getPopularTags);
+tagRouter.get('/autocomplete', autocompleteTags);
+tagRouter.get(
+    '/following',
+    requireScope('follows:read'),
+    checkLogin,
+    getFollowedTags
+);
+tagRouter.get('/:tag/posts', optionalLogin, getTagPosts);
+tagRouter.post(
+    '/:tag/follow',
+    requireScope('follows:write'),
+    checkLogin,
+    followTag
+);
+tagRouter.delete(
+    '/:tag/follow',
+    requireScope('follows:write'),
+    checkLogin,
+    unfollowTag
+);
+
+export default tagRouter;
@@ -1,15 +1,19 @@
 import app from './app.js';
 import config from './config/config.js';
 import dbConnect from './db/dbConnect.js';
+import { runMigrations } from './db/migrations.js';
+import { startJobs } from './jobs/index.js';
 
 // database connection
 dbConnect()
+    .then(runMigrations)
     .then(() => {
         app.listen(config.PORT, () => {
             console.log(`Server is running at port ${config.PORT}...`);
         });
+        startJobs();
     })
     .catch((err) => {
-        console.error('Failed to connect to MongoDB:', err);
+        console.error('Failed to start the server:', err);
         process.exit(1); // Gracefully exit if DB connection fails
     });
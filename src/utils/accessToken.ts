@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+import personalAccessTokenModel from '../models/personalAccessToken.model.js';
+
+export const TOKEN_SCOPES = [
+    'posts:write',
+    'comments:write',
+    'likes:write',
+    'profile:read',
+    'profile:write',
+    'follows:read',
+    'follows:write',
+    'bookmarks:read',
+    'bookmarks:write',
+    'analytics:read'
+] as const;
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+// Lets checkLogin tell personal access tokens apart from JWTs
+export const PERSONAL_TOKEN_PREFIX = 'sc_pat_';
+
+const hashToken = (token: string) =>
+    crypto.createHash('sha256').update(token).digest('hex');
+
+export const generatePersonalAccessToken = () => {
+    const token = `${PERSONAL_TOKEN_PREFIX}${crypto.randomBytes(32).toString('hex')}`;
+
+    return {
+        token,
+        tokenHash: hashToken(token),
+        prefix: token.slice(0, PERSONAL_TOKEN_PREFIX.length + 6)
+    };
+};
+
+// Look up an unexpired token and record that it was used
+export const findPersonalAccessToken = async (token: string) => {
+    return personalAccessTokenModel.findOneAndUpdate(
+        {
+            tokenHash: hashToken(token),
+            $or: [
+                { expiresAt: { $exists: false } },
+                { expiresAt: null },
+                { expiresAt: { $gt: new Date() } }
+            ]
+        },
+        { $set: { lastUsedAt: new Date() } },
+        { new: true }
+    );
+};
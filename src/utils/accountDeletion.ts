@@ -0,0 +1,161 @@
+import { client } from '../lib/redis.js';
+import config from '../config/config.js';
+import userModel from '../models/user.model.js';
+import postModel from '../models/post.model.js';
+import commentModel from '../models/comment.model.js';
+import postRevisionModel from '../models/postRevision.model.js';
+import seriesModel from '../models/series.model.js';
+import paymentModel from '../models/payment.model.js';
+import { removeUserExports } from './dataExport.js';
+import { removeFeed } from './feed.js';
+import { removeAuthorStats } from './analytics.js';
+import {
+    removePostInvitations,
+    removeUserCollaborations
+} from './collaborators.js';
+import { removeRepostsOf, syncRepostCounts } from './reposts.js';
+import { removePostsFromBookmarks, removeUserBookmarks } from './bookmarks.js';
+import { syncTagCounts } from './tags.js';
+import { syncCategoryCounts } from './categories.js';
+import { invalidatePostListings } from './postCache.js';
+import { queueRankingUpdate } from './rankings.js';
+import { deleteFromCloudinary } from './cloudinary.js';
+import { postMedia, removeAttachments } from './attachments.js';
+import { purgeUserSessions, revokeUserSessions } from './session.js';
+
+const PROFILE_CACHE_KEY = (userId: string) => `profile:${userId}`;
+
+// Start the grace period: the account is logged out everywhere and purged
+// once the period is over unless the user logs back in
+export const scheduleAccountDeletion = async (userId: string) => {
+    const deletionScheduledAt = new Date(
+        Date.now() + config.ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    await userModel.findByIdAndUpdate(userId, { deletionScheduledAt });
+    await revokeUserSessions(userId);
+
+    return deletionScheduledAt;
+};
+
+// Returns true if a pending deletion was cancelled
+export const cancelAccountDeletion = async (userId: string) => {
+    const result = await userModel.updateOne(
+        { _id: userId, deletionScheduledAt: { $exists: true } },
+        { $unset: { deletionScheduledAt: 1 } }
+    );
+
+    return result.modifiedCount === 1;
+};
+
+// Remove a user and everything that references them
+export const purgeUser = async (userId: string) => {
+    const user = await userModel.findById(userId);
+    if (!user) return;
+
+    // Their posts, the comments under them and their images
+    const posts = await postModel
+        .find({ author: userId })
+        .select('author coAuthors category tags image attachments repostOf');
+    const postIds = posts.map((post) => post._id);
+
+    await Promise.all(posts.map((post) => removeAttachments(postMedia(post))));
+    await commentModel.deleteMany({ post: { $in: postIds } });
+    await postRevisionModel.deleteMany({ post: { $in: postIds } });
+    await postModel.deleteMany({ author: userId });
+
+    // Other people's reposts of their posts
+    const reposts = await removeRepostsOf(postIds);
+    await removePostInvitations(postIds);
+
+    // Posts they co-authored stay with their other authors
+    const coAuthoredPosts = await removeUserCollaborations(userId);
+
+    // What they left on other people's content
+    const likedPosts = await postModel
+        .find({ likes: userId })
+        .select('author coAuthors category tags');
+
+    const commentedPostIds = await commentModel.distinct('post', {
+        author: userId
+    });
+
+    await commentModel.deleteMany({ author: userId });
+    await postModel.updateMany({ likes: userId }, { $pull: { likes: userId } });
+    await commentModel.updateMany(
+        { likes: userId },
+        { $pull: { likes: userId } }
+    );
+
+    // Follow relationships in both directions
+    await userModel.updateMany(
+        { $or: [{ followers: userId }, { following: userId }] },
+        { $pull: { followers: userId, following: userId } }
+    );
+
+    await purgeUserSessions(userId);
+    await removeUserExports(userId);
+    await removeFeed(userId);
+    await removeUserBookmarks(userId);
+    await removeAuthorStats(userId);
+    await seriesModel.deleteMany({ owner: userId });
+    // Paid payments are kept for accounting without who made them, orders
+    // that were never paid are removed
+    await paymentModel.deleteMany({ user: userId, status: 'created' });
+    await paymentModel.updateMany({ user: userId }, { $unset: { user: 1 } });
+    await removePostsFromBookmarks([
+        ...postIds,
+        ...reposts.map((repost) => repost._id)
+    ]);
+
+    if (user.profilePicture) {
+        await deleteFromCloudinary(user.profilePicture);
+    }
+
+    await userModel.findByIdAndDelete(userId);
+
+    // Cached profiles of the people they followed or who followed them, and
+    // listings with their posts or posts they had liked, may still
+    // reference them
+    const relatedUserIds = [
+        ...(user.followers || []),
+        ...(user.following || [])
+    ].map((id) => id.toString());
+
+    await client.del([
+        PROFILE_CACHE_KEY(userId),
+        ...relatedUserIds.map(PROFILE_CACHE_KEY)
+    ]);
+    await syncTagCounts(posts.flatMap((post) => post.tags));
+    await syncCategoryCounts(posts.map((post) => post.category));
+    await syncRepostCounts(posts.map((post) => post.repostOf));
+    await invalidatePostListings(
+        ...posts,
+        ...likedPosts,
+        ...reposts,
+        ...coAuthoredPosts
+    );
+    await queueRankingUpdate([
+        ...postIds,
+        ...reposts.map((repost) => repost._id),
+        ...likedPosts.map((post) => post._id),
+        ...commentedPostIds
+    ]);
+};
+
+// Purge every account whose grace period is over
+export const purgeDueAccounts = async () => {
+    const dueUsers = await userModel
+        .find({ deletionScheduledAt: { $lte: new Date() } })
+        .select('_id');
+
+    for (const user of dueUsers) {
+        try {
+            await purgeUser(user.id);
+        } catch (error) {
+            console.error(`Failed to purge account ${user.id}:`, error);
+        }
+    }
+
+    return dueUsers.length;
+};
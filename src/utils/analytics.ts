@@ -0,0 +1,221 @@
+import mongoose from 'mongoose';
+import userModel from '../models/user.model.js';
+import postModel from '../models/post.model.js';
+import commentModel from '../models/comment.model.js';
+import postViewStatModel from '../models/postViewStat.model.js';
+import authorDailyStatModel from '../models/authorDailyStat.model.js';
+import { startOfDay } from './views.js';
+import { authoredBy } from './postLifecycle.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const TOP_POSTS = 100;
+const TOP_REFERRERS = 10;
+
+const toDayString = (date: Date) => date.toISOString().slice(0, 10);
+
+interface ActivityChanges {
+    followersGained?: number;
+    followersLost?: number;
+    likes?: number;
+}
+
+// Add to today's follower and like counts of an author
+export const recordAuthorActivity = async (
+    authorId: unknown,
+    changes: ActivityChanges
+) => {
+    if (!authorId) return;
+
+    await authorDailyStatModel.updateOne(
+        { author: authorId, day: startOfDay() },
+        { $inc: changes },
+        { upsert: true }
+    );
+};
+
+// Add to the counts of the post's author and each of its co-authors
+export const recordPostActivity = async (
+    post: { author?: unknown; coAuthors?: unknown[] },
+    changes: ActivityChanges
+) => {
+    for (const authorId of [post.author, ...(post.coAuthors || [])]) {
+        await recordAuthorActivity(authorId, changes);
+    }
+};
+
+export const removeAuthorStats = async (authorId: string) => {
+    await postViewStatModel.deleteMany({ author: authorId });
+    await authorDailyStatModel.deleteMany({ author: authorId });
+};
+
+// How the author's posts and audience did over the last `days` days, with
+// every day of the range present in the daily series. Co-authored posts
+// count for every one of their authors.
+export const getAuthorAnalytics = async (authorId: string, days: number) => {
+    const author = new mongoose.Types.ObjectId(authorId);
+    const to = startOfDay();
+    const from = new Date(to.getTime() - (days - 1) * DAY);
+
+    const posts = await postModel.aggregate<{
+        _id: mongoose.Types.ObjectId;
+        title?: string;
+        slug?: string;
+        kind?: string;
+        status?: string;
+        createdAt: Date;
+        views: number;
+        likes: number;
+        repostCount: number;
+    }>([
+        { $match: authoredBy(author) },
+        {
+            $project: {
+                title: 1,
+                slug: 1,
+                kind: 1,
+                status: 1,
+                createdAt: 1,
+                views: { $ifNull: ['$views', 0] },
+                likes: { $size: { $ifNull: ['$likes', []] } },
+                repostCount: { $ifNull: ['$repostCount', 0] }
+            }
+        }
+    ]);
+
+    const postIds = posts.map((post) => post._id);
+    // View stats are stored under the post's author, so co-authored posts
+    // are matched by id
+    const postViews = { post: { $in: postIds }, day: { $gte: from } };
+
+    const [
+        user,
+        viewsByPost,
+        viewsByDay,
+        referrers,
+        activity,
+        commentsByPost,
+        commentsByDay
+    ] = await Promise.all([
+        userModel.findById(author).select('followers'),
+        postViewStatModel.aggregate<{ _id: unknown; views: number }>([
+            { $match: postViews },
+            { $group: { _id: '$post', views: { $sum: '$views' } } }
+        ]),
+        postViewStatModel.aggregate<{ _id: Date; views: number }>([
+            { $match: postViews },
+            { $group: { _id: '$day', views: { $sum: '$views' } } }
+        ]),
+        postViewStatModel.aggregate<{ _id: string; views: number }>([
+            { $match: postViews },
+            { $group: { _id: '$referrer', views: { $sum: '$views' } } },
+            { $sort: { views: -1 } },
+            { $limit: TOP_REFERRERS }
+        ]),
+        authorDailyStatModel.find({ author, day: { $gte: from } }),
+        commentModel.aggregate<{ _id: unknown; count: number }>([
+            { $match: { post: { $in: postIds } } },
+            { $group: { _id: '$post', count: { $sum: 1 } } }
+        ]),
+        commentModel.aggregate<{ _id: string; count: number }>([
+            { $match: { post: { $in: postIds }, createdAt: { $gte: from } } },
+            {
+                $group: {
+                    _id: {
+                        $dateToString: {
+                            format: '%Y-%m-%d',
+                            date: '$createdAt'
+                        }
+                    },
+                    count: { $sum: 1 }
+                }
+            }
+        ])
+    ]);
+
+    const viewsInRange = new Map(
+        viewsByPost.map((entry) => [String(entry._id), entry.views])
+    );
+    const comments = new Map(
+        commentsByPost.map((entry) => [String(entry._id), entry.count])
+    );
+
+    const postStats = posts
+        .map((post) => ({
+            ...post,
+            viewsInRange: viewsInRange.get(String(post._id)) || 0,
+            comments: comments.get(String(post._id)) || 0
+        }))
+        .sort((a, b) => b.viewsInRange - a.viewsInRange || b.views - a.views);
+
+    // One entry per day, oldest first
+    const daily = new Map(
+        Array.from({ length: days }, (_, i) => {
+            const date = toDayString(new Date(from.getTime() + i * DAY));
+            return [
+                date,
+                {
+                    date,
+                    views: 0,
+                    likes: 0,
+                    comments: 0,
+                    followersGained: 0,
+                    followersLost: 0
+                }
+            ];
+        })
+    );
+
+    for (const entry of viewsByDay) {
+        const day = daily.get(toDayString(entry._id));
+        if (day) day.views = entry.views;
+    }
+    for (const entry of commentsByDay) {
+        const day = daily.get(entry._id);
+        if (day) day.comments = entry.count;
+    }
+    for (const entry of activity) {
+        const day = daily.get(toDayString(entry.day));
+        if (day) {
+            day.likes = entry.likes;
+            day.followersGained = entry.followersGained;
+            day.followersLost = entry.followersLost;
+        }
+    }
+
+    const series = [...daily.values()];
+    const sum = (
+        key:
+            | 'views'
+            | 'likes'
+            | 'comments'
+            | 'followersGained'
+            | 'followersLost'
+    ) => series.reduce((total, day) => total + day[key], 0);
+
+    return {
+        range: { from: toDayString(from), to: toDayString(to), days },
+        totals: {
+            posts: posts.length,
+            views: postStats.reduce((total, post) => total + post.views, 0),
+            likes: postStats.reduce((total, post) => total + post.likes, 0),
+            comments: postStats.reduce(
+                (total, post) => total + post.comments,
+                0
+            ),
+            followers: user?.followers?.length || 0
+        },
+        inRange: {
+            views: sum('views'),
+            likes: sum('likes'),
+            comments: sum('comments'),
+            followersGained: sum('followersGained'),
+            followersLost: sum('followersLost')
+        },
+        daily: series,
+        posts: postStats.slice(0, TOP_POSTS),
+        topReferrers: referrers.map((entry) => ({
+            referrer: entry._id,
+            views: entry.views
+        }))
+    };
+};
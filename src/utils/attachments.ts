@@ -0,0 +1,72 @@
+import { deleteFromCloudinary, uploadOnCloudinary } from './cloudinary.js';
+
+export const MAX_ATTACHMENTS = 10;
+
+export type AttachmentType = 'image' | 'video' | 'file';
+
+export interface Attachment {
+    url: string;
+    type: AttachmentType;
+    alt?: string;
+    caption?: string;
+    width?: number;
+    height?: number;
+}
+
+// Taken from what Cloudinary detected, not the type the client claimed
+const attachmentType = (resourceType: string): AttachmentType => {
+    if (resourceType === 'image') return 'image';
+    if (resourceType === 'video') return 'video';
+    return 'file';
+};
+
+// Upload files in order, with the alt text and caption given for the file at
+// the same position. Returns null if any upload failed, in which case the
+// ones that did succeed are removed again.
+export const uploadAttachments = async (
+    files: Express.Multer.File[],
+    details: { alt?: string; caption?: string }[] = []
+) => {
+    const attachments: Attachment[] = [];
+
+    for (const [i, file] of files.entries()) {
+        const uploaded = await uploadOnCloudinary(file.path);
+
+        if (!uploaded) {
+            await removeAttachments(attachments);
+            return null;
+        }
+
+        attachments.push({
+            url: uploaded.secure_url,
+            type: attachmentType(uploaded.resource_type),
+            alt: details[i]?.alt,
+            caption: details[i]?.caption,
+            width: uploaded.width,
+            height: uploaded.height
+        });
+    }
+
+    return attachments;
+};
+
+export const removeAttachments = async (attachments: { url: string }[]) => {
+    await Promise.all(
+        attachments.map((attachment) => deleteFromCloudinary(attachment.url))
+    );
+};
+
+// Every uploaded file of a post, including the image of posts from before
+// attachments existed
+export const postMedia = (post: {
+    image?: string | null;
+    attachments?: { url: string }[];
+}) => {
+    const urls = (post.attachments || []).map((attachment) => attachment.url);
+    if (post.image && !urls.includes(post.image)) urls.push(post.image);
+    return urls.map((url) => ({ url }));
+};
+
+// The post's `image`, kept for clients that only show a single picture
+export const coverImage = (attachments: { url: string; type?: string }[]) =>
+    attachments.find((attachment) => attachment.type === 'image')?.url ?? null;
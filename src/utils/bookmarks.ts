@@ -0,0 +1,38 @@
+import bookmarkModel from '../models/bookmark.model.js';
+import readingListModel from '../models/readingList.model.js';
+
+// Mark which of the posts the user has bookmarked. Anonymous users get
+// false for all of them.
+export const withBookmarkFlags = async <T extends { _id: unknown }>(
+    posts: T[],
+    userId?: string
+) => {
+    const bookmarkedIds = userId
+        ? await bookmarkModel.distinct('post', {
+              user: userId,
+              post: { $in: posts.map((post) => post._id) }
+          })
+        : [];
+    const bookmarked = new Set(bookmarkedIds.map(String));
+
+    return posts.map((post) => ({
+        ...post,
+        bookmarked: bookmarked.has(String(post._id))
+    }));
+};
+
+// Take deleted posts out of everyone's bookmarks and reading lists
+export const removePostsFromBookmarks = async (postIds: unknown[]) => {
+    if (postIds.length === 0) return;
+
+    await bookmarkModel.deleteMany({ post: { $in: postIds } });
+    await readingListModel.updateMany(
+        { posts: { $in: postIds } },
+        { $pull: { posts: { $in: postIds } } }
+    );
+};
+
+export const removeUserBookmarks = async (userId: string) => {
+    await bookmarkModel.deleteMany({ user: userId });
+    await readingListModel.deleteMany({ owner: userId });
+};
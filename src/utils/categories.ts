@@ -0,0 +1,81 @@
+import mongoose from 'mongoose';
+import postModel from '../models/post.model.js';
+import categoryModel from '../models/category.model.js';
+import { publishedFilter } from './postLifecycle.js';
+import { findFreeSlug, retryWithFreeSlug, slugify } from './postContent.js';
+
+// Categories are addressed by ID or by slug
+export const findCategory = (idOrSlug: string) =>
+    categoryModel.findOne(
+        mongoose.Types.ObjectId.isValid(idOrSlug)
+            ? { _id: idOrSlug }
+            : { slug: idOrSlug.toLowerCase() }
+    );
+
+export const generateCategorySlug = (
+    name: string,
+    excludeCategoryId?: mongoose.Types.ObjectId | string
+) =>
+    findFreeSlug(slugify(name, 'category'), (slug) =>
+        categoryModel.exists({
+            slug,
+            ...(excludeCategoryId && { _id: { $ne: excludeCategoryId } })
+        })
+    );
+
+// Write a category with a free slug for the name, retried when another
+// category takes the slug first
+export const withUniqueCategorySlug = <T>(
+    name: string,
+    write: (slug: string) => Promise<T>,
+    excludeCategoryId?: mongoose.Types.ObjectId | string
+) =>
+    retryWithFreeSlug(
+        () => generateCategorySlug(name, excludeCategoryId),
+        write
+    );
+
+// Whether making parentId the parent of categoryId would create a cycle
+export const wouldCreateCycle = async (
+    categoryId: string,
+    parentId: string
+) => {
+    let currentId: string | null = parentId;
+    const seen = new Set<string>();
+
+    while (currentId && !seen.has(currentId)) {
+        if (currentId === categoryId) return true;
+        seen.add(currentId);
+
+        const current: { parent?: unknown } | null = await categoryModel
+            .findById(currentId)
+            .select('parent')
+            .lean();
+        currentId = current?.parent ? String(current.parent) : null;
+    }
+
+    return false;
+};
+
+// Recount the published posts of the given categories
+export const syncCategoryCounts = async (categoryIds: unknown[]) => {
+    const ids = [
+        ...new Set(categoryIds.filter((id) => !!id).map((id) => String(id)))
+    ];
+    if (ids.length === 0) return;
+
+    const counts = await Promise.all(
+        ids.map((id) =>
+            postModel.countDocuments({ category: id, ...publishedFilter })
+        )
+    );
+
+    await categoryModel.bulkWrite(
+        ids.map((id, i) => ({
+            updateOne: {
+                filter: { _id: id },
+                update: { $set: { postCount: counts[i] } }
+            }
+        }))
+    );
+};
@@ -21,4 +21,29 @@ const uploadOnCloudinary = async (localFilePath: string) => {
     }
 };
 
-export { uploadOnCloudinary };
+// Remove an uploaded asset given the URL Cloudinary returned for it
+const deleteFromCloudinary = async (url: string) => {
+    const match = url.match(
+        /res\.cloudinary\.com\/[^/]+\/(image|video|raw)\/upload\/(?:v\d+\/)?(.+)$/
+    );
+
+    // Not one of our uploads (e.g. a Google profile picture)
+    if (!match) return null;
+
+    const [, resourceType, path] = match;
+
+    // Raw files keep their extension in the public id, media files do not
+    const publicId =
+        resourceType === 'raw' ? path : path.replace(/\.[a-z0-9]+$/i, '');
+
+    try {
+        return await cloudinary.uploader.destroy(publicId, {
+            resource_type: resourceType
+        });
+    } catch (error) {
+        console.error(`Failed to delete ${url} from Cloudinary:`, error);
+        return null;
+    }
+};
+
+export { uploadOnCloudinary, deleteFromCloudinary };
@@ -0,0 +1,29 @@
+import postModel from '../models/post.model.js';
+import collaboratorInvitationModel from '../models/collaboratorInvitation.model.js';
+
+export const isCoAuthor = (post: { coAuthors?: unknown[] }, userId: string) =>
+    (post.coAuthors || []).some((coAuthor) => String(coAuthor) === userId);
+
+export const removePostInvitations = async (postIds: unknown[]) => {
+    if (postIds.length === 0) return;
+
+    await collaboratorInvitationModel.deleteMany({ post: { $in: postIds } });
+};
+
+// Take the user off the posts they co-authored and drop the invitations
+// they sent or received. Returns the posts they were taken off.
+export const removeUserCollaborations = async (userId: string) => {
+    const posts = await postModel
+        .find({ coAuthors: userId })
+        .select('author coAuthors category tags');
+
+    await postModel.updateMany(
+        { coAuthors: userId },
+        { $pull: { coAuthors: userId } }
+    );
+    await collaboratorInvitationModel.deleteMany({
+        $or: [{ inviter: userId }, { invitee: userId }]
+    });
+
+    return posts;
+};
@@ -0,0 +1,243 @@
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import crypto from 'crypto';
+import config from '../config/config.js';
+import userModel from '../models/user.model.js';
+import postModel from '../models/post.model.js';
+import commentModel from '../models/comment.model.js';
+import paymentModel from '../models/payment.model.js';
+import dataExportModel from '../models/dataExport.model.js';
+import bookmarkModel from '../models/bookmark.model.js';
+import readingListModel from '../models/readingList.model.js';
+import seriesModel from '../models/series.model.js';
+
+// An export stuck in processing this long is assumed to belong to a server
+// that went away and is picked up again
+const STALE_PROCESSING_AGE = 30 * 60 * 1000;
+
+export const hashDownloadToken = (token: string) =>
+    crypto.createHash('sha256').update(token).digest('hex');
+
+export const generateDownloadToken = () => {
+    const token = crypto.randomBytes(32).toString('hex');
+    return { token, tokenHash: hashDownloadToken(token) };
+};
+
+const exportExpiry = () =>
+    new Date(Date.now() + config.DATA_EXPORT_TTL_HOURS * 60 * 60 * 1000);
+
+const toJson = (data: unknown) => JSON.stringify(data, null, 2);
+
+const postToMarkdown = (post: {
+    _id: unknown;
+    title?: string | null;
+    content?: string | null;
+    image?: string | null;
+    attachments?: {
+        url: string;
+        type?: string | null;
+        alt?: string | null;
+        caption?: string | null;
+    }[];
+    tags?: string[];
+    status?: string | null;
+    createdAt?: Date;
+    publishedAt?: Date | null;
+}) => {
+    const lines = [
+        '---',
+        `id: ${post._id}`,
+        `title: ${JSON.stringify(post.title || '')}`,
+        `status: ${post.status || 'published'}`,
+        `createdAt: ${post.createdAt?.toISOString()}`,
+        ...(post.publishedAt
+            ? [`publishedAt: ${post.publishedAt.toISOString()}`]
+            : []),
+        `tags: [${(post.tags || []).join(', ')}]`,
+        '---',
+        '',
+        post.content || ''
+    ];
+
+    for (const attachment of post.attachments || []) {
+        const label = attachment.alt || attachment.caption || attachment.type;
+        lines.push(
+            '',
+            attachment.type === 'image'
+                ? `![${label}](${attachment.url})`
+                : `[${label}](${attachment.url})`
+        );
+    }
+
+    if (post.image && !post.attachments?.length) {
+        lines.push('', `![image](${post.image})`);
+    }
+
+    return lines.join('\n') + '\n';
+};
+
+// Collect everything we hold about a user into a zip archive
+export const buildUserArchive = async (userId: string) => {
+    const user = await userModel
+        .findById(userId)
+        .select('-password')
+        .populate('followers', 'username fullname')
+        .populate('following', 'username fullname')
+        .lean();
+
+    if (!user) {
+        throw new Error('User not found');
+    }
+
+    const { followers, following, ...profile } = user;
+
+    const [posts, comments, likedPosts, likedComments, payments] =
+        await Promise.all([
+            postModel.find({ author: userId }).sort({ createdAt: 1 }).lean(),
+            commentModel
+                .find({ author: userId })
+                .sort({ createdAt: 1 })
+                .select('content post createdAt updatedAt')
+                .lean(),
+            postModel
+                .find({ likes: userId })
+                .select('author content createdAt')
+                .populate('author', 'username')
+                .lean(),
+            commentModel
+                .find({ likes: userId })
+                .select('author post content createdAt')
+                .populate('author', 'username')
+                .lean(),
+            // Orders that were never paid are left out
+            paymentModel
+                .find({ user: userId, status: 'paid' })
+                .sort({ date: 1 })
+                .select(
+                    'amount currency razorpay_order_id razorpay_payment_id date paidAt'
+                )
+                .lean()
+        ]);
+
+    const [bookmarks, readingLists, series] = await Promise.all([
+        bookmarkModel
+            .find({ user: userId })
+            .sort({ createdAt: -1 })
+            .select('post createdAt')
+            .populate('post', 'title slug')
+            .lean(),
+        readingListModel.find({ owner: userId }).lean(),
+        seriesModel.find({ owner: userId }).lean()
+    ]);
+
+    const zip = new JSZip();
+
+    zip.file('profile.json', toJson(profile));
+    zip.file('posts.json', toJson(posts));
+    zip.file('comments.json', toJson(comments));
+    zip.file(
+        'likes.json',
+        toJson({ posts: likedPosts, comments: likedComments })
+    );
+    zip.file('followers.json', toJson(followers));
+    zip.file('following.json', toJson(following));
+    zip.file('payments.json', toJson(payments));
+    zip.file('bookmarks.json', toJson(bookmarks));
+    zip.file('reading-lists.json', toJson(readingLists));
+    zip.file('series.json', toJson(series));
+
+    const postsFolder = zip.folder('posts');
+    for (const post of posts) {
+        postsFolder?.file(`${post.slug || post._id}.md`, postToMarkdown(post));
+    }
+
+    return zip.generateAsync({ type: 'nodebuffer' });
+};
+
+// Build the archive of a pending export. Returns false if another worker
+// already claimed it.
+export const processDataExport = async (exportId: string) => {
+    const dataExport = await dataExportModel.findOneAndUpdate(
+        { _id: exportId, status: 'pending' },
+        { status: 'processing' },
+        { new: true }
+    );
+    if (!dataExport) return false;
+
+    try {
+        const archive = await buildUserArchive(dataExport.user.toString());
+
+        await fs.promises.mkdir(config.DATA_EXPORT_DIR, { recursive: true });
+        const filePath = path.join(
+            config.DATA_EXPORT_DIR,
+            `${dataExport._id}.zip`
+        );
+        await fs.promises.writeFile(filePath, archive);
+
+        await dataExportModel.findByIdAndUpdate(dataExport._id, {
+            status: 'ready',
+            filePath,
+            expiresAt: exportExpiry()
+        });
+    } catch (error) {
+        console.error(`Failed to build data export ${dataExport._id}:`, error);
+        await dataExportModel.findByIdAndUpdate(dataExport._id, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error',
+            expiresAt: exportExpiry()
+        });
+    }
+
+    return true;
+};
+
+// Pick up exports that were never started or whose worker went away
+export const processPendingExports = async () => {
+    await dataExportModel.updateMany(
+        {
+            status: 'processing',
+            updatedAt: { $lte: new Date(Date.now() - STALE_PROCESSING_AGE) }
+        },
+        { status: 'pending' }
+    );
+
+    const pendingExports = await dataExportModel
+        .find({ status: 'pending' })
+        .select('_id');
+
+    for (const dataExport of pendingExports) {
+        await processDataExport(dataExport.id);
+    }
+
+    return pendingExports.length;
+};
+
+const removeExportFile = async (filePath?: string | null) => {
+    if (!filePath) return;
+    await fs.promises.rm(filePath, { force: true });
+};
+
+// Delete archives whose download link has expired, and old failed exports
+export const removeExpiredExports = async () => {
+    const expiredExports = await dataExportModel.find({
+        expiresAt: { $lte: new Date() }
+    });
+
+    for (const dataExport of expiredExports) {
+        await removeExportFile(dataExport.filePath);
+        await dataExportModel.findByIdAndDelete(dataExport._id);
+    }
+
+    return expiredExports.length;
+};
+
+export const removeUserExports = async (userId: string) => {
+    const dataExports = await dataExportModel.find({ user: userId });
+
+    for (const dataExport of dataExports) {
+        await removeExportFile(dataExport.filePath);
+    }
+
+    await dataExportModel.deleteMany({ user: userId });
+};
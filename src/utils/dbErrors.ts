@@ -0,0 +1,7 @@
+import mongoose from 'mongoose';
+
+// A write rejected by a unique index, optionally one that covers the field
+export const isDuplicateKeyError = (error: unknown, field?: string) =>
+    error instanceof mongoose.mongo.MongoServerError &&
+    error.code === 11000 &&
+    (!field || field in (error.keyPattern || {}));
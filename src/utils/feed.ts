@@ -0,0 +1,217 @@
+import mongoose from 'mongoose';
+import { client } from '../lib/redis.js';
+import userModel from '../models/user.model.js';
+import postModel from '../models/post.model.js';
+import { publishedFilter } from './postLifecycle.js';
+import { afterCursor, decodeCursor, encodeCursor } from './pagination.js';
+
+// Authors with more followers than this are not fanned out on write, their
+// posts are merged into feeds when they are read, as are posts with a
+// followed tag
+const POPULAR_AUTHOR_FOLLOWERS = 10000;
+// Entries kept per timeline
+const FEED_SIZE = 800;
+// Posts of a newly followed author copied into the timeline
+const BACKFILL_SIZE = 50;
+
+const FEED_KEY = (userId: string) => `feed:${userId}`;
+
+type Cursor = ReturnType<typeof decodeCursor>;
+
+const addToFeed = (
+    multi: ReturnType<typeof client.multi>,
+    userId: string,
+    posts: { _id: unknown; publishedAt?: Date | null }[]
+) => {
+    if (posts.length === 0) return;
+
+    multi.zAdd(
+        FEED_KEY(userId),
+        posts.map((post) => ({
+            score: post.publishedAt?.getTime() ?? 0,
+            value: String(post._id)
+        }))
+    );
+    // Keep only the newest entries
+    multi.zRemRangeByRank(FEED_KEY(userId), 0, -(FEED_SIZE + 1));
+};
+
+// Push a newly published post into the timelines of the author's followers
+export const fanOutPost = async (post: {
+    _id: unknown;
+    author?: unknown;
+    publishedAt?: Date | null;
+}) => {
+    const author = await userModel.findById(post.author).select('followers');
+    const followers = author?.followers || [];
+
+    if (followers.length === 0 || followers.length > POPULAR_AUTHOR_FOLLOWERS) {
+        return;
+    }
+
+    const multi = client.multi();
+    for (const followerId of followers) {
+        addToFeed(multi, String(followerId), [post]);
+    }
+    await multi.exec();
+};
+
+// Copy the recent posts of a newly followed author into the timeline. A
+// timeline that does not exist yet is built in full on the next read.
+export const backfillFeed = async (userId: string, authorId: string) => {
+    const [feedExists, author] = await Promise.all([
+        client.exists(FEED_KEY(userId)),
+        userModel.findById(authorId).select('followers')
+    ]);
+
+    if (
+        !feedExists ||
+        !author ||
+        (author.followers?.length ?? 0) > POPULAR_AUTHOR_FOLLOWERS
+    ) {
+        return;
+    }
+
+    const posts = await postModel
+        .find({ author: authorId, ...publishedFilter })
+        .sort({ publishedAt: -1 })
+        .limit(BACKFILL_SIZE)
+        .select('publishedAt');
+
+    const multi = client.multi();
+    addToFeed(multi, userId, posts);
+    await multi.exec();
+};
+
+// Drop the posts of an unfollowed author from the timeline
+export const pruneFeed = async (userId: string, authorId: string) => {
+    const postIds = await postModel.distinct('_id', { author: authorId });
+
+    if (postIds.length > 0) {
+        await client.zRem(FEED_KEY(userId), postIds.map(String));
+    }
+};
+
+export const removeFeed = async (userId: string) => {
+    await client.del(FEED_KEY(userId));
+};
+
+// Split the followed authors into the ones fanned out on write and the
+// popular ones read at query time
+const getFollowedAuthors = async (following: unknown[]) => {
+    const authors = await userModel.aggregate<{
+        _id: mongoose.Types.ObjectId;
+        followersCount: number;
+    }>([
+        { $match: { _id: { $in: following } } },
+        {
+            $project: {
+                followersCount: { $size: { $ifNull: ['$followers', []] } }
+            }
+        }
+    ]);
+
+    return {
+        regular: authors
+            .filter((a) => a.followersCount <= POPULAR_AUTHOR_FOLLOWERS)
+            .map((a) => a._id),
+        popular: authors
+            .filter((a) => a.followersCount > POPULAR_AUTHOR_FOLLOWERS)
+            .map((a) => a._id)
+    };
+};
+
+// Build the timeline from scratch, e.g. for existing follows or after Redis
+// lost the key
+const rebuildFeed = async (
+    userId: string,
+    authorIds: mongoose.Types.ObjectId[]
+) => {
+    if (authorIds.length === 0) return;
+
+    const posts = await postModel
+        .find({ author: { $in: authorIds }, ...publishedFilter })
+        .sort({ publishedAt: -1 })
+        .limit(FEED_SIZE)
+        .select('publishedAt');
+
+    const multi = client.multi();
+    addToFeed(multi, userId, posts);
+    await multi.exec();
+};
+
+// One page of the user's home feed, newest first
+export const getFeedPage = async (
+    userId: string,
+    after: Cursor,
+    limit: number
+) => {
+    const user = await userModel
+        .findById(userId)
+        .select('following followedTags');
+    const { regular, popular } = await getFollowedAuthors(
+        user?.following || []
+    );
+
+    if (!(await client.exists(FEED_KEY(userId)))) {
+        await rebuildFeed(userId, regular);
+    }
+
+    // Read a few extra timeline entries in case some posts were unpublished
+    // or deleted since they were fanned out
+    const window = (limit + 1) * 2;
+    const entries = await client.zRangeWithScores(
+        FEED_KEY(userId),
+        after ? after.at.getTime() : '+inf',
+        '-inf',
+        { BY: 'SCORE', REV: true, LIMIT: { offset: 0, count: window } }
+    );
+
+    const posts = await postModel
+        .find({
+            ...publishedFilter,
+            $and: [
+                afterCursor(after, 'publishedAt'),
+                {
+                    $or: [
+                        { _id: { $in: entries.map((entry) => entry.value) } },
+                        { author: { $in: popular } },
+                        { tags: { $in: user?.followedTags || [] } }
+                    ]
+                }
+            ]
+        })
+        .sort({ publishedAt: -1, _id: -1 })
+        .limit(limit + 1)
+        .populate('author', 'username profilePicture fullname')
+        .populate('category', 'name');
+
+    // When the timeline has more entries than were read, posts older than
+    // the last one read are not complete yet and wait for the next page
+    const oldestEntry =
+        entries.length === window ? entries[entries.length - 1] : null;
+    const complete = oldestEntry
+        ? posts.filter(
+              (post) => (post.publishedAt?.getTime() ?? 0) >= oldestEntry.score
+          )
+        : posts;
+
+    const items = complete.slice(0, limit);
+    const last = items[items.length - 1];
+
+    let nextCursor: string | null = null;
+    if (complete.length > limit || (oldestEntry && last)) {
+        nextCursor = encodeCursor(last, 'publishedAt');
+    } else if (oldestEntry) {
+        // Every entry read was stale, continue after them
+        nextCursor = encodeCursor(
+            {
+                _id: oldestEntry.value,
+                publishedAt: new Date(oldestEntry.score)
+            },
+            'publishedAt'
+        );
+    }
+
+    return { items, nextCursor };
+};
@@ -0,0 +1,127 @@
+import { client } from '../lib/redis.js';
+import { mailer } from '../lib/mailer.js';
+import userModel from '../models/user.model.js';
+
+interface ThrottleLimits {
+    freeAttempts: number; // failures allowed before delays start
+    lockoutAfter: number; // failures that trigger a temporary lockout
+    maxDelay: number; // seconds
+    lockoutDuration: number; // seconds
+}
+
+export interface LockoutEvent {
+    email: string;
+    ip: string;
+    lockedUntil: Date;
+}
+
+type LockoutHook = (event: LockoutEvent) => Promise<void> | void;
+
+const FAILURE_WINDOW = 60 * 60; // seconds
+
+const ACCOUNT_LIMITS: ThrottleLimits = {
+    freeAttempts: 3,
+    lockoutAfter: 10,
+    maxDelay: 60,
+    lockoutDuration: 15 * 60
+};
+
+// An IP may legitimately be shared by many users, so it gets more room
+const IP_LIMITS: ThrottleLimits = {
+    freeAttempts: 10,
+    lockoutAfter: 50,
+    maxDelay: 60,
+    lockoutDuration: 60 * 60
+};
+
+const FAILURES_KEY = (scope: string, id: string) =>
+    `login:failures:${scope}:${id}`;
+const BLOCK_KEY = (scope: string, id: string) => `login:block:${scope}:${id}`;
+
+const lockoutHooks: LockoutHook[] = [];
+
+// Register a callback that runs whenever an account gets locked
+export const onLockout = (hook: LockoutHook) => {
+    lockoutHooks.push(hook);
+};
+
+// Seconds the next attempt has to wait: doubling after the free attempts,
+// then a fixed lockout once the limit is reached
+const delayFor = (failures: number, limits: ThrottleLimits) => {
+    if (failures >= limits.lockoutAfter) return limits.lockoutDuration;
+    if (failures < limits.freeAttempts) return 0;
+    return Math.min(2 ** (failures - limits.freeAttempts), limits.maxDelay);
+};
+
+const registerFailure = async (
+    scope: string,
+    id: string,
+    limits: ThrottleLimits
+) => {
+    const failures = await client.incr(FAILURES_KEY(scope, id));
+
+    if (failures === 1) {
+        await client.expire(FAILURES_KEY(scope, id), FAILURE_WINDOW);
+    }
+
+    const delay = delayFor(failures, limits);
+    if (delay > 0) {
+        await client.set(BLOCK_KEY(scope, id), '1', { EX: delay });
+    }
+
+    return { failures, delay };
+};
+
+// Seconds until the email/IP pair may try to sign in again, 0 if allowed now
+export const getLoginRetryAfter = async (email: string, ip: string) => {
+    const [accountTtl, ipTtl] = await Promise.all([
+        client.ttl(BLOCK_KEY('account', email.toLowerCase())),
+        client.ttl(BLOCK_KEY('ip', ip))
+    ]);
+
+    return Math.max(accountTtl, ipTtl, 0);
+};
+
+export const recordFailedLogin = async (email: string, ip: string) => {
+    const account = await registerFailure(
+        'account',
+        email.toLowerCase(),
+        ACCOUNT_LIMITS
+    );
+    await registerFailure('ip', ip, IP_LIMITS);
+
+    if (account.failures === ACCOUNT_LIMITS.lockoutAfter) {
+        const event = {
+            email,
+            ip,
+            lockedUntil: new Date(Date.now() + account.delay * 1000)
+        };
+
+        // Hooks run in the background: they only do work for accounts that
+        // exist, which signin timing must not reveal
+        for (const hook of lockoutHooks) {
+            Promise.resolve()
+                .then(() => hook(event))
+                .catch((error) => console.error('Lockout hook failed:', error));
+        }
+    }
+};
+
+export const clearFailedLogins = async (email: string) => {
+    await client.del([
+        FAILURES_KEY('account', email.toLowerCase()),
+        BLOCK_KEY('account', email.toLowerCase())
+    ]);
+};
+
+// Let the account owner know, in case it was not them
+onLockout(async ({ email, ip, lockedUntil }) => {
+    const user = await userModel.findOne({ email });
+    if (!user) return;
+
+    await mailer.send({
+        to: user.email,
+        subject: 'Your account has been temporarily locked',
+        text: `Hi ${user.fullname},\n\nWe noticed several failed attempts to sign in to your account from ${ip}, so sign in is blocked until ${lockedUntil.toUTCString()}.\n\nIf this was not you, we recommend resetting your password.`
+    });
+});
@@ -0,0 +1,61 @@
+import mongoose from 'mongoose';
+
+// Listings are sorted by creation time, or by publication time for
+// published posts
+type SortField = 'createdAt' | 'publishedAt';
+
+interface Cursor {
+    at: Date;
+    id: mongoose.Types.ObjectId;
+}
+
+type Sortable = { _id: unknown; createdAt?: Date; publishedAt?: Date | null };
+
+// Cursors are opaque to clients: the sort time and _id of the last item
+// on the previous page
+export const encodeCursor = (item: Sortable, field: SortField = 'createdAt') =>
+    Buffer.from(`${item[field]?.getTime() ?? 0}:${String(item._id)}`).toString(
+        'base64url'
+    );
+
+export const decodeCursor = (cursor: string): Cursor | null => {
+    const [time, id] = Buffer.from(cursor, 'base64url').toString().split(':');
+    const at = new Date(Number(time));
+
+    if (isNaN(at.getTime()) || !mongoose.Types.ObjectId.isValid(id)) {
+        return null;
+    }
+
+    return { at, id: new mongoose.Types.ObjectId(id) };
+};
+
+// Items that come after the cursor when sorted by the field and _id, newest
+// first. Pair with sort({ [field]: -1, _id: -1 }).
+export const afterCursor = (
+    cursor: Cursor | null,
+    field: SortField = 'createdAt'
+) =>
+    cursor
+        ? {
+              $or: [
+                  { [field]: { $lt: cursor.at } },
+                  { [field]: cursor.at, _id: { $lt: cursor.id } }
+              ]
+          }
+        : {};
+
+// Fetch one item more than the page size to know whether there is a next page
+export const toPage = <T extends Sortable>(
+    items: T[],
+    limit: number,
+    field: SortField = 'createdAt'
+) => {
+    const pageItems = items.slice(0, limit);
+    const last = pageItems[pageItems.length - 1];
+
+    return {
+        items: pageItems,
+        nextCursor:
+            items.length > limit && last ? encodeCursor(last, field) : null
+    };
+};
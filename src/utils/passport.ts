@@ -1,26 +1,168 @@
+import crypto from 'crypto';
 import dotenv from 'dotenv';
-import jwt from 'jsonwebtoken';
 import passport from 'passport';
+import { Request, Response } from 'express';
+import jwt, { JwtPayload } from 'jsonwebtoken';
 import config from '../config/config.js';
 import userModel from '../models/user.model.js';
+import { revokeUserSessions } from './session.js';
 import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
 
 dotenv.config();
 
+const OAUTH_STATE_TTL = 10 * 60; // seconds
+const OAUTH_NONCE_COOKIE = 'oauthNonce';
+
+// Lax, so the cookie comes along when Google redirects back
+const nonceCookieOptions = {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax' as const,
+    path: '/api/v1/auth/google'
+};
+
+interface OAuthState extends JwtPayload {
+    purpose: 'oauth';
+    redirect: string;
+    linkUserId?: string;
+    nonce: string;
+}
+
+export const isAllowedRedirect = (url: string) =>
+    config.OAUTH_REDIRECT_URLS.includes(url);
+
+// The OAuth state round-trips through Google, so it is signed to keep the
+// redirect target and the account being linked from being tampered with.
+// It also carries a nonce that is set as a cookie, so the flow can only be
+// completed by the browser that started it.
+export const signOAuthState = (
+    res: Response,
+    redirect: string,
+    linkUserId?: string
+) => {
+    const nonce = crypto.randomBytes(16).toString('hex');
+
+    res.cookie(OAUTH_NONCE_COOKIE, nonce, {
+        ...nonceCookieOptions,
+        maxAge: OAUTH_STATE_TTL * 1000
+    });
+
+    return jwt.sign(
+        { purpose: 'oauth', redirect, linkUserId, nonce },
+        config.JWT_SECRET,
+        { expiresIn: OAUTH_STATE_TTL }
+    );
+};
+
+export const verifyOAuthState = (req: Request) => {
+    const state = req.query.state;
+    const nonce = req.cookies?.[OAUTH_NONCE_COOKIE];
+
+    if (typeof state !== 'string' || typeof nonce !== 'string') {
+        return null;
+    }
+
+    try {
+        const payload = jwt.verify(state, config.JWT_SECRET) as OAuthState;
+        return payload.purpose === 'oauth' &&
+            isAllowedRedirect(payload.redirect) &&
+            typeof payload.nonce === 'string' &&
+            payload.nonce.length === nonce.length &&
+            crypto.timingSafeEqual(
+                Buffer.from(payload.nonce),
+                Buffer.from(nonce)
+            )
+            ? payload
+            : null;
+    } catch (error) {
+        return null;
+    }
+};
+
+export const clearOAuthNonce = (res: Response) => {
+    res.clearCookie(OAUTH_NONCE_COOKIE, nonceCookieOptions);
+};
+
 passport.use(
     new GoogleStrategy(
         {
             clientID: config.GOOGLE_CLIENT_ID,
             clientSecret: config.GOOGLE_CLIENT_SECRET,
-            callbackURL: config.GOOGLE_CALLBACK
+            callbackURL: config.GOOGLE_CALLBACK,
+            passReqToCallback: true
         },
-        async (accessToken, refreshToken, profile, done) => {
+        async (req, accessToken, refreshToken, profile, done) => {
             try {
+                const state = verifyOAuthState(req);
+                const googleEmail = profile.emails && profile.emails[0];
+
+                // Started by another browser, or the state was forged
+                if (!state) {
+                    return done(null, false, {
+                        message: 'Sign in attempt has expired'
+                    });
+                }
+
                 let user = await userModel.findOne({ googleId: profile.id });
 
+                // A logged-in user is linking Google to their account
+                if (state.linkUserId) {
+                    if (user && user.id !== state.linkUserId) {
+                        return done(null, false, {
+                            message:
+                                'This Google account is already linked to another user'
+                        });
+                    }
+
+                    user = await userModel.findByIdAndUpdate(
+                        state.linkUserId,
+                        { googleId: profile.id },
+                        { new: true }
+                    );
+
+                    return user
+                        ? done(null, { id: user.id })
+                        : done(null, false, { message: 'User not found' });
+                }
+
+                // Otherwise fall back to the account registered with the same
+                // email, as long as Google has verified that address
+                if (!user && googleEmail) {
+                    const emailUser = await userModel.findOne({
+                        email: googleEmail.value
+                    });
+
+                    if (emailUser) {
+                        if (
+                            !googleEmail.verified ||
+                            emailUser.twoFactorEnabled
+                        ) {
+                            return done(null, false, {
+                                message:
+                                    'Sign in with your password and link Google from your profile'
+                            });
+                        }
+
+                        if (emailUser.isEmailVerified) {
+                            emailUser.googleId = profile.id;
+                        } else {
+                            // Nobody proved owning this address before, so a
+                            // password set by whoever signed up with it must
+                            // not keep working now that its owner showed up
+                            emailUser.googleId = profile.id;
+                            emailUser.isEmailVerified = true;
+                            emailUser.set('password', undefined);
+                            await revokeUserSessions(emailUser.id);
+                        }
+
+                        user = await emailUser.save();
+                    }
+                }
+
                 if (!user) {
-                    const email = (profile.emails && profile.emails[0].value) || '';
-                    const profilePicture = (profile.photos && profile.photos[0].value) || '';
+                    const email = googleEmail ? googleEmail.value : '';
+                    const profilePicture =
+                        (profile.photos && profile.photos[0].value) || '';
                     const fullname = profile.displayName;
 
                     user = new userModel({
@@ -28,17 +170,14 @@ passport.use(
                         username: profile.displayName,
                         email,
                         profilePicture,
-                        fullname
+                        fullname,
+                        isEmailVerified: !!googleEmail?.verified
                     });
                     await user.save();
                 }
 
-                const payload = { id: user.id };
-                const token = jwt.sign(payload, config.JWT_SECRET, {
-                    expiresIn: '24h'
-                });
-
-                done(null, { id: user.id, username: user.username, token });
+                // The session and its tokens are issued by the callback route
+                done(null, { id: user.id });
             } catch (err) {
                 done(err, false);
             }
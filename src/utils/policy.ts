@@ -0,0 +1,82 @@
+import { Request } from 'express';
+import userModel from '../models/user.model.js';
+import { Role } from '../interfaces/interfaces.js';
+
+export type Permission =
+    | 'content:moderate'
+    | 'users:manage'
+    | 'categories:manage';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    user: [],
+    moderator: ['content:moderate'],
+    admin: ['content:moderate', 'users:manage', 'categories:manage']
+};
+
+export interface Actor {
+    id: string;
+    role: Role;
+}
+
+export const hasPermission = (role: Role, permission: Permission) =>
+    ROLE_PERMISSIONS[role].includes(permission);
+
+// Load the role of the logged-in user once per request
+export const getActor = async (req: Request): Promise<Actor | null> => {
+    if (!req.user?.id) {
+        return null;
+    }
+
+    if (!req.user.role) {
+        const user = await userModel.findById(req.user.id).select('role');
+        if (!user) {
+            return null;
+        }
+        req.user.role = user.role;
+    }
+
+    return { id: req.user.id, role: req.user.role };
+};
+
+const isOwner = (actor: Actor, ownerId: unknown) =>
+    !!ownerId && String(ownerId) === actor.id;
+
+const isPostAuthor = (
+    actor: Actor,
+    post: { author?: unknown; coAuthors?: unknown[] }
+) =>
+    isOwner(actor, post.author) ||
+    (post.coAuthors || []).some((coAuthor) => isOwner(actor, coAuthor));
+
+// Who may do what to which resource. Authors manage their own content,
+// moderators may remove anyone's content and admins may manage any user.
+export const policy = {
+    post: {
+        update: (
+            actor: Actor,
+            post: { author?: unknown; coAuthors?: unknown[] }
+        ) => isPostAuthor(actor, post),
+        viewRevisions: (
+            actor: Actor,
+            post: { author?: unknown; coAuthors?: unknown[] }
+        ) =>
+            isPostAuthor(actor, post) ||
+            hasPermission(actor.role, 'content:moderate'),
+        manageCollaborators: (actor: Actor, post: { author?: unknown }) =>
+            isOwner(actor, post.author),
+        delete: (actor: Actor, post: { author?: unknown }) =>
+            isOwner(actor, post.author) ||
+            hasPermission(actor.role, 'content:moderate')
+    },
+    comment: {
+        update: (actor: Actor, comment: { author?: unknown }) =>
+            isOwner(actor, comment.author),
+        delete: (actor: Actor, comment: { author?: unknown }) =>
+            isOwner(actor, comment.author) ||
+            hasPermission(actor.role, 'content:moderate')
+    },
+    profile: {
+        update: (actor: Actor, userId: string) =>
+            actor.id === userId || hasPermission(actor.role, 'users:manage')
+    }
+};
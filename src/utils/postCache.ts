@@ -0,0 +1,70 @@
+import { client } from '../lib/redis.js';
+
+const PAGE_TTL = 600; // seconds
+
+// Every post listing (all posts, a category, a user) has a version number
+// that is part of its page cache keys. Bumping it makes all cached pages of
+// the listing stale at once; they then expire on their own.
+const LISTING_VERSION_KEY = (listing: string) => `posts:version:${listing}`;
+const PAGE_CACHE_KEY = (listing: string, version: string, page: string) =>
+    `posts:page:${listing}:${version}:${page}`;
+
+export const ALL_POSTS = 'all';
+export const USER_POSTS = (userId: string) => `user:${userId}`;
+export const CATEGORY_POSTS = (categoryId: string) => `category:${categoryId}`;
+export const TAG_POSTS = (tag: string) => `tag:${tag}`;
+
+// Return a cached page of a listing, loading and caching it on a miss
+export const getCachedPage = async <T>(
+    listing: string,
+    page: string,
+    load: () => Promise<T>
+): Promise<T> => {
+    const version = (await client.get(LISTING_VERSION_KEY(listing))) || '0';
+    const key = PAGE_CACHE_KEY(listing, version, page);
+
+    const cached = await client.get(key);
+    if (cached) {
+        return JSON.parse(cached);
+    }
+
+    const data = await load();
+    await client.set(key, JSON.stringify(data), { EX: PAGE_TTL });
+
+    return data;
+};
+
+export const invalidateListings = async (listings: string[]) => {
+    await Promise.all(
+        [...new Set(listings)].map((listing) =>
+            client.incr(LISTING_VERSION_KEY(listing))
+        )
+    );
+};
+
+// Make every listing the given posts can appear in stale
+export const invalidatePostListings = async (
+    ...posts: {
+        author?: unknown;
+        coAuthors?: unknown[];
+        category?: unknown;
+        tags?: string[];
+    }[]
+) => {
+    const listings = [ALL_POSTS];
+
+    for (const post of posts) {
+        if (post.author) listings.push(USER_POSTS(String(post.author)));
+        for (const coAuthor of post.coAuthors || []) {
+            listings.push(USER_POSTS(String(coAuthor)));
+        }
+        if (post.category) {
+            listings.push(CATEGORY_POSTS(String(post.category)));
+        }
+        for (const tag of post.tags || []) {
+            listings.push(TAG_POSTS(tag));
+        }
+    }
+
+    await invalidateListings(listings);
+};
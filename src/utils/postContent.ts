@@ -0,0 +1,117 @@
+import mongoose from 'mongoose';
+import { marked } from 'marked';
+import sanitizeHtml from 'sanitize-html';
+import postModel from '../models/post.model.js';
+import { isDuplicateKeyError } from './dbErrors.js';
+
+const WORDS_PER_MINUTE = 200;
+const EXCERPT_LENGTH = 160;
+const MAX_SLUG_LENGTH = 80;
+const MAX_SLUG_ATTEMPTS = 5;
+
+const HTML_OPTIONS: sanitizeHtml.IOptions = {
+    allowedTags: [...sanitizeHtml.defaults.allowedTags, 'img'],
+    allowedAttributes: {
+        a: ['href', 'title', 'rel'],
+        img: ['src', 'alt', 'title'],
+        code: ['class']
+    },
+    allowedSchemes: ['http', 'https', 'mailto'],
+    // Links in user content should not pass on ranking or the opener
+    transformTags: {
+        a: sanitizeHtml.simpleTransform('a', {
+            rel: 'nofollow noopener noreferrer'
+        })
+    }
+};
+
+// Markdown to HTML that is safe to render as is: scripts, inline event
+// handlers and javascript: URLs are stripped
+export const renderMarkdown = (markdown: string) =>
+    sanitizeHtml(marked.parse(markdown, { async: false }), HTML_OPTIONS);
+
+const toPlainText = (html: string) =>
+    sanitizeHtml(html, { allowedTags: [], allowedAttributes: {} })
+        .replace(/\s+/g, ' ')
+        .trim();
+
+const buildExcerpt = (text: string) => {
+    if (text.length <= EXCERPT_LENGTH) return text;
+
+    const cut = text.slice(0, EXCERPT_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+};
+
+// Fields derived from the Markdown content, stored alongside it
+export const buildContentFields = (content = '') => {
+    const contentHtml = renderMarkdown(content);
+    const text = toPlainText(contentHtml);
+    const wordCount = text ? text.split(' ').length : 0;
+
+    return {
+        contentHtml,
+        excerpt: buildExcerpt(text),
+        wordCount,
+        readingTime: Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE)) // minutes
+    };
+};
+
+export const slugify = (text: string, fallback = 'post') =>
+    text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .slice(0, MAX_SLUG_LENGTH)
+        .replace(/^-+|-+$/g, '') || fallback;
+
+// The slug itself, or the first free one of slug-2, slug-3, ...
+export const findFreeSlug = async (
+    slug: string,
+    isTaken: (candidate: string) => Promise<unknown>
+) => {
+    for (let suffix = 1; ; suffix++) {
+        const candidate = suffix === 1 ? slug : `${slug}-${suffix}`;
+        if (!(await isTaken(candidate))) return candidate;
+    }
+};
+
+// A slug based on the title, suffixed with a number when it is taken
+export const generateUniqueSlug = async (
+    title: string,
+    excludePostId?: mongoose.Types.ObjectId | string
+) =>
+    findFreeSlug(slugify(title), (slug) =>
+        postModel.exists({
+            slug,
+            ...(excludePostId && { _id: { $ne: excludePostId } })
+        })
+    );
+
+// Write with a free slug from generateSlug. Another write can take the slug
+// between the check and the write, the next free one is tried then.
+export const retryWithFreeSlug = async <T>(
+    generateSlug: () => Promise<string>,
+    write: (slug: string) => Promise<T>
+): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await write(await generateSlug());
+        } catch (error) {
+            if (
+                attempt >= MAX_SLUG_ATTEMPTS ||
+                !isDuplicateKeyError(error, 'slug')
+            ) {
+                throw error;
+            }
+        }
+    }
+};
+
+// Write a post with a free slug for the title
+export const withUniqueSlug = <T>(
+    title: string,
+    write: (slug: string) => Promise<T>,
+    excludePostId?: mongoose.Types.ObjectId | string
+) => retryWithFreeSlug(() => generateUniqueSlug(title, excludePostId), write);
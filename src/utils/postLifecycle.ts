@@ -0,0 +1,65 @@
+import postModel from '../models/post.model.js';
+import { fanOutPost } from './feed.js';
+import { syncTagCounts } from './tags.js';
+import { syncCategoryCounts } from './categories.js';
+import { invalidatePostListings } from './postCache.js';
+import { queueRankingUpdate } from './rankings.js';
+
+// Posts created before statuses existed have none and count as published
+export const publishedFilter = { status: { $in: ['published', null] } };
+
+export const isPublished = (post: { status?: string | null }) =>
+    !post.status || post.status === 'published';
+
+// Only the authors can see a post that is not published
+export const isPostVisibleTo = (
+    post: { status?: string | null; author?: unknown; coAuthors?: unknown[] },
+    userId?: string
+) =>
+    isPublished(post) ||
+    (!!userId &&
+        [post.author, ...(post.coAuthors || [])].some(
+            (author) => String(author) === userId
+        ));
+
+// Posts written by the user, alone or with others
+export const authoredBy = (userId: unknown) => ({
+    $or: [{ author: userId }, { coAuthors: userId }]
+});
+
+// Publish every scheduled post whose time has come. They count as
+// published at their scheduled time, not when the job got to them.
+export const publishDuePosts = async () => {
+    const duePosts = await postModel
+        .find({ status: 'scheduled', publishAt: { $lte: new Date() } })
+        .select('author coAuthors category tags publishAt publishedAt');
+
+    if (duePosts.length === 0) return 0;
+
+    await postModel.updateMany(
+        { _id: { $in: duePosts.map((post) => post._id) }, status: 'scheduled' },
+        [
+            {
+                $set: {
+                    status: 'published',
+                    publishedAt: { $ifNull: ['$publishedAt', '$publishAt'] }
+                }
+            }
+        ]
+    );
+
+    for (const post of duePosts) {
+        post.publishedAt = post.publishedAt ?? post.publishAt;
+    }
+
+    await syncTagCounts(duePosts.flatMap((post) => post.tags));
+    await syncCategoryCounts(duePosts.map((post) => post.category));
+    await invalidatePostListings(...duePosts);
+    await queueRankingUpdate(duePosts.map((post) => post._id));
+
+    for (const post of duePosts) {
+        await fanOutPost(post);
+    }
+
+    return duePosts.length;
+};
@@ -0,0 +1,27 @@
+import { withBookmarkFlags } from './bookmarks.js';
+import { withEmbeddedOriginals } from './reposts.js';
+import { withPremiumLocks } from './premium.js';
+
+type PlainPost = { _id: unknown; repostOf?: unknown; [key: string]: unknown };
+
+// Documents straight from Mongo and pages read back from the cache
+const toPlainPost = (post: object) =>
+    ('toJSON' in post && typeof post.toJSON === 'function'
+        ? post.toJSON()
+        : post) as PlainPost;
+
+// Posts as they are sent to clients: reposts and quotes with the original
+// embedded, members-only posts locked for readers without premium, and
+// whether the user bookmarked each post. Cached pages hold the full posts,
+// so this runs on every read.
+export const presentPosts = async (posts: object[], userId?: string) =>
+    withBookmarkFlags(
+        await withPremiumLocks(
+            await withEmbeddedOriginals(posts.map(toPlainPost)),
+            userId
+        ),
+        userId
+    );
+
+export const presentPost = async (post: object, userId?: string) =>
+    (await presentPosts([post], userId))[0];
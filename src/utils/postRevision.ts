@@ -0,0 +1,67 @@
+import { diffLines } from 'diff';
+import postRevisionModel from '../models/postRevision.model.js';
+import { isDuplicateKeyError } from './dbErrors.js';
+
+const MAX_SAVE_ATTEMPTS = 5;
+
+interface RevisionSource {
+    _id: unknown;
+    title?: string | null;
+    content?: string | null;
+    author?: unknown;
+    updatedAt?: Date;
+}
+
+// Store the current title and content of a post as its next revision. A
+// concurrent edit can take the version number first, the next one is
+// tried then.
+export const saveRevision = async (post: RevisionSource, editorId: unknown) => {
+    for (let attempt = 1; ; attempt++) {
+        const latest = await postRevisionModel
+            .findOne({ post: post._id })
+            .sort({ version: -1 })
+            .select('version');
+
+        try {
+            return await postRevisionModel.create({
+                post: post._id,
+                editor: editorId,
+                version: (latest?.version ?? 0) + 1,
+                title: post.title,
+                content: post.content
+            });
+        } catch (error) {
+            if (attempt >= MAX_SAVE_ATTEMPTS || !isDuplicateKeyError(error)) {
+                throw error;
+            }
+        }
+    }
+};
+
+// Posts written before revisions existed get their current state saved as
+// the first revision before it is edited
+export const ensureInitialRevision = async (post: RevisionSource) => {
+    const hasRevisions = await postRevisionModel.exists({ post: post._id });
+    if (hasRevisions) return;
+
+    try {
+        await postRevisionModel.create({
+            post: post._id,
+            editor: post.author,
+            version: 1,
+            title: post.title,
+            content: post.content,
+            createdAt: post.updatedAt
+        });
+    } catch (error) {
+        // A concurrent edit saved it first
+        if (!isDuplicateKeyError(error)) throw error;
+    }
+};
+
+// Line by line changes needed to go from one text to another
+export const diffText = (from = '', to = '') =>
+    diffLines(from, to).map((change) => ({
+        type: change.added ? 'added' : change.removed ? 'removed' : 'unchanged',
+        value: change.value
+    }));
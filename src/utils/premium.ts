@@ -0,0 +1,109 @@
+import config from '../config/config.js';
+import userModel from '../models/user.model.js';
+import { renderMarkdown } from './postContent.js';
+
+// Characters of a members-only post shown to readers without premium. Short
+// posts show at most half of their content.
+const PREVIEW_LENGTH = 500;
+
+type PresentedPost = { _id: unknown; [key: string]: unknown };
+
+// Authors are populated in some listings and plain ids in others
+const idOf = (ref: unknown) =>
+    String(ref && typeof ref === 'object' && '_id' in ref ? ref._id : ref);
+
+const isAuthor = (post: PresentedPost, userId?: string) =>
+    !!userId &&
+    [post.author, ...((post.coAuthors as unknown[]) || [])].some(
+        (author) => idOf(author) === userId
+    );
+
+const buildPreview = (content: string) => {
+    const cut = content.slice(
+        0,
+        Math.min(PREVIEW_LENGTH, Math.floor(content.length / 2))
+    );
+    const lastSpace = cut.search(/\s\S*$/);
+    return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+};
+
+// The post as a reader without access sees it: a preview of the content
+// and no attachments or cover image. Embedded originals only carry the
+// excerpt.
+const lockPost = <T extends PresentedPost>(post: T) => {
+    const preview =
+        typeof post.content === 'string'
+            ? buildPreview(post.content)
+            : String(post.excerpt || '');
+
+    return {
+        ...post,
+        ...(typeof post.content === 'string' && { content: preview }),
+        contentHtml: renderMarkdown(preview),
+        attachments: [],
+        image: null,
+        locked: true
+    };
+};
+
+// Members-only posts are shown in full to premium users and their authors,
+// everyone else gets a preview with `locked` set. Reposts and quotes of
+// members-only posts lock the embedded original the same way.
+export const withPremiumLocks = async <T extends PresentedPost>(
+    posts: T[],
+    userId?: string
+) => {
+    const originals = posts
+        .map((post) => post.repostOf)
+        .filter(
+            (original): original is PresentedPost =>
+                !!original && typeof original === 'object'
+        );
+    const hasPremiumPosts = [...posts, ...originals].some(
+        (post) => post.premium
+    );
+
+    const isPremiumUser =
+        !!userId &&
+        hasPremiumPosts &&
+        !!(await userModel.exists({
+            _id: userId,
+            premiumUntil: { $gt: new Date() }
+        }));
+
+    const present = <P extends PresentedPost>(post: P) =>
+        !post.premium || isPremiumUser || isAuthor(post, userId)
+            ? { ...post, locked: false }
+            : lockPost(post);
+
+    return posts.map((post) => {
+        const presented = present(post);
+        const original = post.repostOf;
+
+        return original && typeof original === 'object' && '_id' in original
+            ? { ...presented, repostOf: present(original as PresentedPost) }
+            : presented;
+    });
+};
+
+// Add PREMIUM_DAYS to the user's premium, counted from now if it has run out
+export const extendPremium = async (userId: string) => {
+    const user = await userModel.findByIdAndUpdate(
+        userId,
+        [
+            {
+                $set: {
+                    premiumUntil: {
+                        $add: [
+                            { $max: ['$premiumUntil', '$$NOW'] },
+                            config.PREMIUM_DAYS * 24 * 60 * 60 * 1000
+                        ]
+                    }
+                }
+            }
+        ],
+        { new: true }
+    );
+
+    return user?.premiumUntil;
+};
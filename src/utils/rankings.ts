@@ -0,0 +1,328 @@
+import { client } from '../lib/redis.js';
+import postModel from '../models/post.model.js';
+import commentModel from '../models/comment.model.js';
+import { publishedFilter } from './postLifecycle.js';
+
+// Posts kept per trending ranking
+const RANKING_SIZE = 500;
+// Posts rescored at a time in the all-time ranking
+const RESCORE_BATCH = 500;
+// How long the ranking of a category and tag combination is kept
+const COMBINED_RANKING_TTL = 60; // seconds
+// A comment counts for more than a like, a view for a lot less
+const COMMENT_WEIGHT = 2;
+const VIEW_WEIGHT = 0.05;
+// How fast trending scores fall off with age, as in Hacker News
+const GRAVITY = 1.8;
+
+const TRENDING_WINDOWS = {
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000
+};
+
+export type TrendingWindow = keyof typeof TRENDING_WINDOWS;
+
+export const TRENDING_RANKING = (window: TrendingWindow) =>
+    `trending:${window}`;
+export const TOP_RANKING = 'top';
+
+// Every ranking is kept for all posts and once per category and tag
+const CATEGORY_SCOPE = (categoryId: string) => `category:${categoryId}`;
+const TAG_SCOPE = (tag: string) => `tag:${tag}`;
+const RANKING_KEY = (ranking: string, scope?: string) =>
+    scope ? `rank:${ranking}:${scope}` : `rank:${ranking}`;
+// The scoped rankings written by the last rebuild of a trending ranking
+const TRENDING_KEYS_KEY = (ranking: string) => `rank:${ranking}:keys`;
+// Posts whose likes, comments, views, category or tags changed since the
+// all-time ranking was last updated
+const STALE_POSTS_KEY = 'rank:stale';
+// The scopes each post is ranked in, in the all-time ranking
+const TOP_SCOPES_KEY = 'rank:top:scopes';
+// Set once every post has been queued for the all-time ranking
+const TOP_QUEUED_KEY = 'rank:top:queued';
+
+interface Engagement {
+    id: string;
+    publishedAt: Date;
+    scopes: string[];
+    engagement: number;
+}
+
+// Likes, comments and views of the published posts matching the filter
+const getEngagement = async (
+    match: Record<string, unknown>
+): Promise<Engagement[]> => {
+    const posts = await postModel.aggregate<{
+        _id: unknown;
+        publishedAt: Date;
+        category?: unknown;
+        tags?: string[];
+        likes: number;
+        views: number;
+    }>([
+        { $match: { ...publishedFilter, ...match } },
+        {
+            $project: {
+                publishedAt: 1,
+                category: 1,
+                tags: 1,
+                likes: { $size: { $ifNull: ['$likes', []] } },
+                views: { $ifNull: ['$views', 0] }
+            }
+        }
+    ]);
+
+    const comments = await commentModel.aggregate<{
+        _id: unknown;
+        count: number;
+    }>([
+        { $match: { post: { $in: posts.map((post) => post._id) } } },
+        { $group: { _id: '$post', count: { $sum: 1 } } }
+    ]);
+    const commentCounts = new Map(
+        comments.map((comment) => [String(comment._id), comment.count])
+    );
+
+    return posts.map((post) => ({
+        id: String(post._id),
+        publishedAt: post.publishedAt,
+        scopes: [
+            ...(post.category ? [CATEGORY_SCOPE(String(post.category))] : []),
+            ...(post.tags || []).map(TAG_SCOPE)
+        ],
+        engagement:
+            post.likes +
+            COMMENT_WEIGHT * (commentCounts.get(String(post._id)) || 0) +
+            VIEW_WEIGHT * post.views
+    }));
+};
+
+// Replace a ranking with the highest scored entries in one step
+const storeRanking = async (
+    key: string,
+    entries: { id: string; score: number }[]
+) => {
+    const top = entries
+        .filter((entry) => entry.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, RANKING_SIZE);
+
+    if (top.length === 0) {
+        await client.del(key);
+        return;
+    }
+
+    const nextKey = `${key}:next`;
+    await client
+        .multi()
+        .del(nextKey)
+        .zAdd(
+            nextKey,
+            top.map((entry) => ({ score: entry.score, value: entry.id }))
+        )
+        .rename(nextKey, key)
+        .exec();
+};
+
+// Trending scores fall with age, so every post of the window is rescored.
+// Only posts published within the window can trend.
+const rebuildTrendingRanking = async (window: TrendingWindow, now: number) => {
+    const ranking = TRENDING_RANKING(window);
+    const posts = await getEngagement({
+        publishedAt: { $gte: new Date(now - TRENDING_WINDOWS[window]) }
+    });
+
+    const entriesByKey = new Map<string, { id: string; score: number }[]>([
+        [RANKING_KEY(ranking), []]
+    ]);
+    for (const post of posts) {
+        const ageHours = (now - post.publishedAt.getTime()) / 3600000;
+        const entry = {
+            id: post.id,
+            score: post.engagement / Math.pow(ageHours + 2, GRAVITY)
+        };
+
+        for (const scope of [undefined, ...post.scopes]) {
+            const key = RANKING_KEY(ranking, scope);
+            const entries = entriesByKey.get(key);
+
+            if (entries) {
+                entries.push(entry);
+            } else {
+                entriesByKey.set(key, [entry]);
+            }
+        }
+    }
+
+    for (const [key, entries] of entriesByKey) {
+        await storeRanking(key, entries);
+    }
+
+    // Categories and tags without posts in the window any more
+    const previousKeys = await client.sMembers(TRENDING_KEYS_KEY(ranking));
+    const staleKeys = previousKeys.filter((key) => !entriesByKey.has(key));
+    if (staleKeys.length > 0) {
+        await client.del(staleKeys);
+    }
+
+    await client
+        .multi()
+        .del(TRENDING_KEYS_KEY(ranking))
+        .sAdd(TRENDING_KEYS_KEY(ranking), [...entriesByKey.keys()])
+        .exec();
+};
+
+// Queue posts to be rescored in the all-time ranking, after their
+// engagement, category or tags changed or they were unpublished or deleted
+export const queueRankingUpdate = async (postIds: unknown[]) => {
+    if (postIds.length === 0) return;
+
+    await client.sAdd(STALE_POSTS_KEY, postIds.map(String));
+};
+
+// Queue every published post, when the all-time ranking is first built or
+// Redis lost it
+const queueAllPosts = async () => {
+    let batch: unknown[] = [];
+
+    for await (const post of postModel
+        .find(publishedFilter)
+        .select('_id')
+        .cursor()) {
+        batch.push(post._id);
+        if (batch.length === RESCORE_BATCH) {
+            await queueRankingUpdate(batch);
+            batch = [];
+        }
+    }
+
+    await queueRankingUpdate(batch);
+    await client.set(TOP_QUEUED_KEY, '1');
+};
+
+// Rescore the queued posts in the all-time ranking. Every post with any
+// engagement is kept, so that it keeps its place once it gets more.
+const updateTopRanking = async () => {
+    if (!(await client.exists(TOP_QUEUED_KEY))) {
+        await queueAllPosts();
+    }
+
+    for (;;) {
+        const ids = await client.sPop(STALE_POSTS_KEY, RESCORE_BATCH);
+        if (ids.length === 0) return;
+
+        const posts = new Map(
+            (await getEngagement({ _id: { $in: ids } })).map((post) => [
+                post.id,
+                post
+            ])
+        );
+        const previousScopes = await client.hmGet(TOP_SCOPES_KEY, ids);
+
+        const multi = client.multi();
+        ids.forEach((id, i) => {
+            const post = posts.get(id);
+            const ranked = !!post && post.engagement > 0;
+            const scopes = ranked ? post.scopes : [];
+
+            for (const scope of JSON.parse(previousScopes[i] || '[]')) {
+                if (!scopes.includes(scope)) {
+                    multi.zRem(RANKING_KEY(TOP_RANKING, scope), id);
+                }
+            }
+
+            if (!ranked) {
+                multi.zRem(RANKING_KEY(TOP_RANKING), id);
+                multi.hDel(TOP_SCOPES_KEY, id);
+                return;
+            }
+
+            for (const scope of [undefined, ...scopes]) {
+                multi.zAdd(RANKING_KEY(TOP_RANKING, scope), {
+                    score: post.engagement,
+                    value: id
+                });
+            }
+            multi.hSet(TOP_SCOPES_KEY, id, JSON.stringify(scopes));
+        });
+        await multi.exec();
+    }
+};
+
+// Recompute the trending rankings of every window and update the all-time
+// top with the posts that changed
+export const computeRankings = async () => {
+    const now = Date.now();
+
+    for (const window of Object.keys(TRENDING_WINDOWS) as TrendingWindow[]) {
+        await rebuildTrendingRanking(window, now);
+    }
+
+    await updateTopRanking();
+};
+
+// The ranking to read, narrowed down to a category, a tag or both
+const getRankingKey = async (
+    ranking: string,
+    category?: string,
+    tag?: string
+) => {
+    if (!category || !tag) {
+        return RANKING_KEY(
+            ranking,
+            category ? CATEGORY_SCOPE(category) : tag && TAG_SCOPE(tag)
+        );
+    }
+
+    const key = RANKING_KEY(
+        ranking,
+        `${CATEGORY_SCOPE(category)}:${TAG_SCOPE(tag)}`
+    );
+    if (!(await client.exists(key))) {
+        await client
+            .multi()
+            .zInterStore(key, [
+                RANKING_KEY(ranking, CATEGORY_SCOPE(category)),
+                RANKING_KEY(ranking, TAG_SCOPE(tag))
+            ])
+            .expire(key, COMBINED_RANKING_TTL)
+            .exec();
+    }
+
+    return key;
+};
+
+// A page of a ranking, optionally narrowed down to a category or tag
+export const getRankedPosts = async (
+    ranking: string,
+    {
+        category,
+        tag,
+        page,
+        limit
+    }: { category?: string; tag?: string; page: number; limit: number }
+) => {
+    const key = await getRankingKey(ranking, category, tag);
+
+    const [ids, total] = await Promise.all([
+        client.zRange(key, (page - 1) * limit, page * limit - 1, {
+            REV: true
+        }),
+        client.zCard(key)
+    ]);
+
+    // Posts unpublished or deleted since the last run are left out
+    const posts = await postModel
+        .find({ _id: { $in: ids }, ...publishedFilter })
+        .populate('author', 'username profilePicture fullname')
+        .populate('category', 'name');
+    const postsById = new Map(posts.map((post) => [post.id, post]));
+
+    return {
+        items: ids.flatMap((id) => {
+            const post = postsById.get(id);
+            return post ? [post] : [];
+        }),
+        total
+    };
+};
@@ -0,0 +1,81 @@
+import postModel from '../models/post.model.js';
+import { publishedFilter } from './postLifecycle.js';
+
+const ORIGINAL_FIELDS =
+    'title slug excerpt contentHtml image attachments author coAuthors kind premium repostCount createdAt publishedAt';
+
+// Recount the published reposts and quotes of the given posts
+export const syncRepostCounts = async (postIds: unknown[]) => {
+    const ids = [
+        ...new Set(postIds.filter((id) => !!id).map((id) => String(id)))
+    ];
+    if (ids.length === 0) return;
+
+    const counts = await Promise.all(
+        ids.map((id) =>
+            postModel.countDocuments({ repostOf: id, ...publishedFilter })
+        )
+    );
+
+    await postModel.bulkWrite(
+        ids.map((id, i) => ({
+            updateOne: {
+                filter: { _id: id },
+                update: { $set: { repostCount: counts[i] } }
+            }
+        }))
+    );
+};
+
+// Embed the post each repost or quote refers to. Originals that were
+// deleted or unpublished are replaced with a tombstone.
+export const withEmbeddedOriginals = async <
+    T extends { _id: unknown; repostOf?: unknown }
+>(
+    posts: T[]
+) => {
+    const originalIds = posts
+        .map((post) => post.repostOf)
+        .filter((id) => !!id)
+        .map(String);
+
+    const originals =
+        originalIds.length > 0
+            ? await postModel
+                  .find({ _id: { $in: originalIds }, ...publishedFilter })
+                  .select(ORIGINAL_FIELDS)
+                  .populate('author', 'username profilePicture fullname')
+            : [];
+    const originalsById = new Map(
+        originals.map((original) => [original.id, original])
+    );
+
+    return posts.map((post) => {
+        if (!post.repostOf) return post;
+
+        const originalId = String(post.repostOf);
+
+        return {
+            ...post,
+            repostOf: originalsById.get(originalId)?.toJSON() ?? {
+                _id: originalId,
+                unavailable: true,
+                message: 'This post is no longer available'
+            }
+        };
+    });
+};
+
+// Plain reposts only share the original, so they go when it goes. Quotes
+// stay and show a tombstone instead.
+export const removeRepostsOf = async (postIds: unknown[]) => {
+    if (postIds.length === 0) return [];
+
+    const reposts = await postModel
+        .find({ repostOf: { $in: postIds }, kind: 'repost' })
+        .select('author category tags');
+
+    await postModel.deleteMany({ _id: { $in: reposts.map((r) => r._id) } });
+
+    return reposts;
+};
@@ -0,0 +1,124 @@
+import mongoose from 'mongoose';
+import postModel from '../models/post.model.js';
+import seriesModel from '../models/series.model.js';
+import { publishedFilter } from './postLifecycle.js';
+import { findFreeSlug, retryWithFreeSlug, slugify } from './postContent.js';
+
+export const MAX_SERIES_POSTS = 100;
+
+// Series are addressed by ID or by slug
+export const findSeries = (idOrSlug: string) =>
+    seriesModel.findOne(
+        mongoose.Types.ObjectId.isValid(idOrSlug)
+            ? { _id: idOrSlug }
+            : { slug: idOrSlug.toLowerCase() }
+    );
+
+export const generateSeriesSlug = (
+    title: string,
+    excludeSeriesId?: mongoose.Types.ObjectId | string
+) =>
+    findFreeSlug(slugify(title, 'series'), (slug) =>
+        seriesModel.exists({
+            slug,
+            ...(excludeSeriesId && { _id: { $ne: excludeSeriesId } })
+        })
+    );
+
+// Write a series with a free slug for the title, retried when another
+// series takes the slug first
+export const withUniqueSeriesSlug = <T>(
+    title: string,
+    write: (slug: string) => Promise<T>,
+    excludeSeriesId?: mongoose.Types.ObjectId | string
+) => retryWithFreeSlug(() => generateSeriesSlug(title, excludeSeriesId), write);
+
+// The posts of a series in order. Others only see the published ones.
+export const getSeriesPosts = async (
+    series: { owner: unknown; posts: mongoose.Types.ObjectId[] },
+    userId?: string
+) => {
+    const isOwner = !!userId && String(series.owner) === userId;
+
+    const posts = await postModel
+        .find({
+            _id: { $in: series.posts },
+            ...(!isOwner && publishedFilter)
+        })
+        .select('title slug excerpt readingTime status createdAt publishedAt');
+
+    const postsById = new Map(posts.map((post) => [post.id, post]));
+    return series.posts.flatMap((postId) => {
+        const post = postsById.get(String(postId));
+        return post ? [post] : [];
+    });
+};
+
+// Where a post sits in its series, with links to the published posts
+// before and after it
+export const getSeriesNavigation = async (postId: unknown) => {
+    const series = await seriesModel
+        .findOne({ posts: postId })
+        .select('owner title slug posts');
+    if (!series) return null;
+
+    const posts = await getSeriesPosts(series);
+    const index = posts.findIndex(
+        (post) => String(post._id) === String(postId)
+    );
+
+    const link = (post?: (typeof posts)[number]) =>
+        post ? { _id: post._id, title: post.title, slug: post.slug } : null;
+
+    return {
+        _id: series._id,
+        title: series.title,
+        slug: series.slug,
+        part: index + 1,
+        totalParts: posts.length,
+        previous: index > 0 ? link(posts[index - 1]) : null,
+        next: index >= 0 ? link(posts[index + 1]) : null
+    };
+};
+
+// A user's series for their profile, with the number of published posts.
+// Series without any published post are only listed for their owner.
+export const getUserSeries = async (ownerId: string, userId?: string) => {
+    const isOwner = ownerId === userId;
+
+    const series = await seriesModel
+        .find({ owner: ownerId })
+        .sort({ updatedAt: -1 })
+        .select('title slug description posts updatedAt');
+
+    const publishedIds = new Set(
+        (
+            await postModel.distinct('_id', {
+                _id: { $in: series.flatMap((s) => s.posts) },
+                ...publishedFilter
+            })
+        ).map(String)
+    );
+
+    return series
+        .map((s) => ({
+            _id: s._id,
+            title: s.title,
+            slug: s.slug,
+            description: s.description,
+            postCount: s.posts.filter((id) => publishedIds.has(String(id)))
+                .length,
+            updatedAt: s.updatedAt
+        }))
+        .filter((s) => isOwner || s.postCount > 0);
+};
+
+// Take deleted posts out of their series
+export const removePostsFromSeries = async (postIds: unknown[]) => {
+    if (postIds.length === 0) return;
+
+    await seriesModel.updateMany(
+        { posts: { $in: postIds } },
+        { $pull: { posts: { $in: postIds } } }
+    );
+};
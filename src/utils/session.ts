@@ -0,0 +1,244 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { client } from '../lib/redis.js';
+import config from '../config/config.js';
+import { Request, Response } from 'express';
+import sessionModel from '../models/session.model.js';
+import personalAccessTokenModel from '../models/personalAccessToken.model.js';
+
+const REVOKED_SESSION_KEY = (sessionId: string) =>
+    `session:revoked:${sessionId}`;
+// Bumped to invalidate every access token a user holds at once
+const TOKEN_VERSION_KEY = (userId: string) => `user:token-version:${userId}`;
+// Rotated refresh token hashes kept per session to detect replays
+const PREVIOUS_TOKEN_HASHES = 5;
+
+const cookieOptions = {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'none' as const
+};
+
+const refreshCookieOptions = {
+    ...cookieOptions,
+    path: '/api/v1/auth'
+};
+
+interface AccessTokenClaims {
+    id: string;
+    sid?: string;
+    ver?: number;
+    purpose?: string;
+}
+
+interface SessionTokens {
+    accessToken: string;
+    refreshToken: string;
+    sessionId: string;
+    userId: string;
+}
+
+const hashToken = (token: string) =>
+    crypto.createHash('sha256').update(token).digest('hex');
+
+const generateSecret = () => crypto.randomBytes(40).toString('hex');
+
+const getTokenVersion = async (userId: string) =>
+    parseInt((await client.get(TOKEN_VERSION_KEY(userId))) || '0', 10);
+
+const signAccessToken = async (userId: string, sessionId: string) =>
+    jwt.sign(
+        { id: userId, sid: sessionId, ver: await getTokenVersion(userId) },
+        config.JWT_SECRET,
+        { expiresIn: config.ACCESS_TOKEN_TTL }
+    );
+
+// Start a new session for the device making the request
+export const createSession = async (
+    userId: string,
+    req: Request
+): Promise<SessionTokens> => {
+    const secret = generateSecret();
+
+    const session = await sessionModel.create({
+        user: userId,
+        refreshTokenHash: hashToken(secret),
+        userAgent: req.headers['user-agent'],
+        ip: req.ip,
+        expiresAt: new Date(Date.now() + config.REFRESH_TOKEN_TTL * 1000)
+    });
+
+    return {
+        accessToken: await signAccessToken(userId, session.id),
+        refreshToken: `${session.id}.${secret}`,
+        sessionId: session.id,
+        userId
+    };
+};
+
+// Exchange a refresh token for a new access/refresh pair. Presenting a
+// refresh token that has already been rotated revokes the whole session,
+// a token that was never issued is only rejected.
+export const rotateSession = async (
+    refreshToken: string
+): Promise<SessionTokens | null> => {
+    const [sessionId, secret] = refreshToken.split('.');
+
+    if (!secret || !mongoose.Types.ObjectId.isValid(sessionId)) {
+        return null;
+    }
+
+    const newSecret = generateSecret();
+    const secretHash = hashToken(secret);
+
+    const session = await sessionModel.findOneAndUpdate(
+        {
+            _id: sessionId,
+            refreshTokenHash: secretHash,
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() }
+        },
+        {
+            $set: {
+                refreshTokenHash: hashToken(newSecret),
+                lastUsedAt: new Date()
+            },
+            $push: {
+                previousTokenHashes: {
+                    $each: [secretHash],
+                    $slice: -PREVIOUS_TOKEN_HASHES
+                }
+            }
+        },
+        { new: true }
+    );
+
+    if (!session) {
+        // An old token of this session was replayed
+        if (
+            await sessionModel.exists({
+                _id: sessionId,
+                previousTokenHashes: secretHash
+            })
+        ) {
+            await revokeSession(sessionId);
+        }
+        return null;
+    }
+
+    const userId = session.user.toString();
+
+    return {
+        accessToken: await signAccessToken(userId, session.id),
+        refreshToken: `${session.id}.${newSecret}`,
+        sessionId: session.id,
+        userId
+    };
+};
+
+export const revokeSession = async (sessionId: string) => {
+    await sessionModel.updateOne(
+        { _id: sessionId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } }
+    );
+
+    // Access tokens already issued for this session stay valid until they
+    // expire, so remember the revocation for that long
+    await client.set(REVOKED_SESSION_KEY(sessionId), '1', {
+        EX: config.ACCESS_TOKEN_TTL
+    });
+};
+
+// Revoke the session a refresh token belongs to, if the token is current
+export const revokeRefreshToken = async (refreshToken: string) => {
+    const [sessionId, secret] = refreshToken.split('.');
+
+    if (!secret || !mongoose.Types.ObjectId.isValid(sessionId)) {
+        return;
+    }
+
+    const session = await sessionModel.findOne({
+        _id: sessionId,
+        refreshTokenHash: hashToken(secret)
+    });
+
+    if (session) {
+        await revokeSession(session.id);
+    }
+};
+
+// Revoke the access token sent with a request. Tokens issued before
+// sessions existed can only be revoked together with all of the user's tokens.
+export const revokeAccessToken = async (token: string) => {
+    let claims: AccessTokenClaims;
+
+    try {
+        claims = jwt.verify(
+            token.replace('Bearer ', ''),
+            config.JWT_SECRET
+        ) as AccessTokenClaims;
+    } catch (error) {
+        return;
+    }
+
+    if (!claims.id || claims.purpose) {
+        return;
+    }
+
+    if (claims.sid) {
+        await revokeSession(claims.sid);
+    } else {
+        await client.incr(TOKEN_VERSION_KEY(claims.id));
+    }
+};
+
+// Log a user out everywhere: end all their sessions, invalidate every
+// access token already issued to them, including ones without a session,
+// and delete their personal access tokens
+export const revokeUserSessions = async (userId: string) => {
+    await sessionModel.updateMany(
+        { user: userId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } }
+    );
+    await personalAccessTokenModel.deleteMany({ user: userId });
+
+    await client.incr(TOKEN_VERSION_KEY(userId));
+};
+
+// Drop everything kept about a deleted user's sessions. The token version
+// only has to outlive the access tokens that were already issued.
+export const purgeUserSessions = async (userId: string) => {
+    await revokeUserSessions(userId);
+    await sessionModel.deleteMany({ user: userId });
+    await client.expire(TOKEN_VERSION_KEY(userId), config.ACCESS_TOKEN_TTL);
+};
+
+// Checked on every authenticated request
+export const isAccessTokenRevoked = async (claims: AccessTokenClaims) => {
+    const [sessionRevoked, tokenVersion] = await client.mGet([
+        REVOKED_SESSION_KEY(claims.sid || ''),
+        TOKEN_VERSION_KEY(claims.id)
+    ]);
+
+    return (
+        (!!claims.sid && sessionRevoked !== null) ||
+        (claims.ver || 0) < parseInt(tokenVersion || '0', 10)
+    );
+};
+
+export const setAuthCookies = (res: Response, tokens: SessionTokens) => {
+    res.cookie('token', tokens.accessToken, {
+        ...cookieOptions,
+        maxAge: config.ACCESS_TOKEN_TTL * 1000
+    });
+    res.cookie('refreshToken', tokens.refreshToken, {
+        ...refreshCookieOptions,
+        maxAge: config.REFRESH_TOKEN_TTL * 1000
+    });
+};
+
+export const clearAuthCookies = (res: Response) => {
+    res.clearCookie('token', cookieOptions);
+    res.clearCookie('refreshToken', refreshCookieOptions);
+};
@@ -0,0 +1,42 @@
+import tagModel from '../models/tag.model.js';
+import postModel from '../models/post.model.js';
+import { publishedFilter } from './postLifecycle.js';
+
+export const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+// "#Machine Learning " and "machine-learning" are the same tag
+export const normalizeTag = (tag: string) =>
+    tag
+        .trim()
+        .toLowerCase()
+        .replace(/^#+/, '')
+        .replace(/\s+/g, '-')
+        .replace(/[^\p{L}\p{N}_-]/gu, '')
+        .slice(0, MAX_TAG_LENGTH);
+
+export const normalizeTags = (tags: string[]) => [
+    ...new Set(tags.map(normalizeTag).filter(Boolean))
+];
+
+// Recount the published posts of the given tags
+export const syncTagCounts = async (tags: (string | null | undefined)[]) => {
+    const names = [...new Set(tags.filter((tag): tag is string => !!tag))];
+    if (names.length === 0) return;
+
+    const counts = await Promise.all(
+        names.map((name) =>
+            postModel.countDocuments({ tags: name, ...publishedFilter })
+        )
+    );
+
+    await tagModel.bulkWrite(
+        names.map((name, i) => ({
+            updateOne: {
+                filter: { name },
+                update: { $set: { postCount: counts[i] } },
+                upsert: true
+            }
+        }))
+    );
+};
@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { client } from '../lib/redis.js';
+import config from '../config/config.js';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_PERIOD = 30; // seconds
+const TOTP_DIGITS = 6;
+const CHALLENGE_TTL = 5 * 60; // seconds
+const MAX_CHALLENGE_ATTEMPTS = 5;
+// Every sign in starts a new challenge, so failures are also counted per
+// user: this many within the window locks 2FA for the rest of it
+const MAX_USER_FAILURES = 10;
+const USER_LOCKOUT_WINDOW = 15 * 60; // seconds
+
+const USED_CODE_KEY = (userId: string, step: number) =>
+    `2fa:used:${userId}:${step}`;
+const CHALLENGE_ATTEMPTS_KEY = (challengeId: string) =>
+    `2fa:attempts:${challengeId}`;
+const USER_FAILURES_KEY = (userId: string) => `2fa:failures:${userId}`;
+
+interface ChallengePayload extends JwtPayload {
+    id: string;
+    purpose: '2fa';
+}
+
+const base32Encode = (buffer: Buffer) => {
+    let bits = '';
+    for (const byte of buffer) {
+        bits += byte.toString(2).padStart(8, '0');
+    }
+
+    let output = '';
+    for (let i = 0; i < bits.length; i += 5) {
+        output +=
+            BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+    }
+    return output;
+};
+
+const base32Decode = (input: string) => {
+    let bits = '';
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) continue;
+        bits += index.toString(2).padStart(5, '0');
+    }
+
+    const bytes: number[] = [];
+    for (let i = 0; i + 8 <= bits.length; i += 8) {
+        bytes.push(parseInt(bits.slice(i, i + 8), 2));
+    }
+    return Buffer.from(bytes);
+};
+
+// HOTP value for one counter step (RFC 4226)
+const generateCode = (secret: string, step: number) => {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto
+        .createHmac('sha1', base32Decode(secret))
+        .update(counter)
+        .digest();
+
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+export const buildOtpauthUri = (secret: string, accountName: string) => {
+    const issuer = encodeURIComponent(config.TWO_FACTOR_ISSUER);
+    const label = `${issuer}:${encodeURIComponent(accountName)}`;
+
+    return `otpauth://totp/${label}?secret=${secret}&issuer=${issuer}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD}`;
+};
+
+// Accept codes from the previous, current and next period to allow for
+// clock drift. Each code can only be used once per user.
+export const verifyTotp = async (
+    userId: string,
+    secret: string,
+    code: string
+) => {
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD);
+    const candidate = code.replace(/\s/g, '');
+
+    for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+        const expected = generateCode(secret, step);
+
+        if (
+            expected.length === candidate.length &&
+            crypto.timingSafeEqual(
+                Buffer.from(expected),
+                Buffer.from(candidate)
+            )
+        ) {
+            const firstUse = await client.set(
+                USED_CODE_KEY(userId, step),
+                '1',
+                {
+                    NX: true,
+                    EX: TOTP_PERIOD * 3
+                }
+            );
+            return firstUse !== null;
+        }
+    }
+
+    return false;
+};
+
+const normalizeRecoveryCode = (code: string) =>
+    code.replace(/[\s-]/g, '').toLowerCase();
+
+export const hashRecoveryCode = (code: string) =>
+    crypto
+        .createHash('sha256')
+        .update(normalizeRecoveryCode(code))
+        .digest('hex');
+
+// Returns the plain codes to show the user once, and the hashes to store
+export const generateRecoveryCodes = (count = 10) => {
+    const codes = Array.from({ length: count }, () => {
+        const raw = crypto.randomBytes(5).toString('hex');
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+// Short-lived token proving the password step of signin succeeded
+export const signChallengeToken = (userId: string) =>
+    jwt.sign({ id: userId, purpose: '2fa' }, config.JWT_SECRET, {
+        expiresIn: CHALLENGE_TTL,
+        jwtid: crypto.randomUUID()
+    });
+
+export const verifyChallengeToken = (token: string) => {
+    try {
+        const payload = jwt.verify(
+            token,
+            config.JWT_SECRET
+        ) as ChallengePayload;
+        return payload.purpose === '2fa' && payload.jti ? payload : null;
+    } catch (error) {
+        return null;
+    }
+};
+
+// Count a verification attempt against a challenge; false once exhausted
+export const registerChallengeAttempt = async (challengeId: string) => {
+    const attempts = await client.incr(CHALLENGE_ATTEMPTS_KEY(challengeId));
+
+    if (attempts === 1) {
+        await client.expire(CHALLENGE_ATTEMPTS_KEY(challengeId), CHALLENGE_TTL);
+    }
+
+    return attempts <= MAX_CHALLENGE_ATTEMPTS;
+};
+
+export const isTwoFactorLocked = async (userId: string) =>
+    parseInt((await client.get(USER_FAILURES_KEY(userId))) || '0', 10) >=
+    MAX_USER_FAILURES;
+
+// Count a wrong code against the user, across all of their challenges
+export const registerTwoFactorFailure = async (userId: string) => {
+    const failures = await client.incr(USER_FAILURES_KEY(userId));
+
+    if (failures === 1) {
+        await client.expire(USER_FAILURES_KEY(userId), USER_LOCKOUT_WINDOW);
+    }
+};
+
+export const clearTwoFactorFailures = async (userId: string) => {
+    await client.del(USER_FAILURES_KEY(userId));
+};
@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import { client } from '../lib/redis.js';
+import { mailer } from '../lib/mailer.js';
+import config from '../config/config.js';
+import { User } from '../interfaces/interfaces.js';
+
+type TokenPurpose = 'verify-email' | 'reset-password';
+
+// seconds
+const TOKEN_TTL: Record<TokenPurpose, number> = {
+    'verify-email': 24 * 60 * 60,
+    'reset-password': 60 * 60
+};
+
+const hashToken = (token: string) =>
+    crypto.createHash('sha256').update(token).digest('hex');
+
+const TOKEN_KEY = (purpose: TokenPurpose, tokenHash: string) =>
+    `${purpose}:${tokenHash}`;
+const USER_TOKEN_KEY = (purpose: TokenPurpose, userId: string) =>
+    `${purpose}:user:${userId}`;
+
+// Issue a single-use token; any earlier token for the same purpose stops working
+export const issueOneTimeToken = async (
+    purpose: TokenPurpose,
+    userId: string
+) => {
+    const token = crypto.randomBytes(32).toString('hex');
+    const tokenHash = hashToken(token);
+
+    const previousHash = await client.get(USER_TOKEN_KEY(purpose, userId));
+    if (previousHash) {
+        await client.del(TOKEN_KEY(purpose, previousHash));
+    }
+
+    await client.set(TOKEN_KEY(purpose, tokenHash), userId, {
+        EX: TOKEN_TTL[purpose]
+    });
+    await client.set(USER_TOKEN_KEY(purpose, userId), tokenHash, {
+        EX: TOKEN_TTL[purpose]
+    });
+
+    return token;
+};
+
+// Returns the id of the user the token was issued to, or null if it is
+// unknown, expired or already used
+export const consumeOneTimeToken = async (
+    purpose: TokenPurpose,
+    token: string
+) => {
+    const userId = await client.getDel(TOKEN_KEY(purpose, hashToken(token)));
+
+    if (userId) {
+        await client.del(USER_TOKEN_KEY(purpose, userId));
+    }
+
+    return userId;
+};
+
+export const sendVerificationEmail = async (user: User) => {
+    const token = await issueOneTimeToken('verify-email', user.id);
+    const link = `${config.CLIENT_URL}/verify-email?token=${token}`;
+
+    await mailer.send({
+        to: user.email,
+        subject: 'Verify your email address',
+        text: `Hi ${user.fullname},\n\nPlease confirm your email address by opening the link below:\n\n${link}\n\nThe link expires in 24 hours.`
+    });
+};
+
+export const sendPasswordResetEmail = async (user: User) => {
+    const token = await issueOneTimeToken('reset-password', user.id);
+    const link = `${config.CLIENT_URL}/reset-password?token=${token}`;
+
+    await mailer.send({
+        to: user.email,
+        subject: 'Reset your password',
+        text: `Hi ${user.fullname},\n\nWe received a request to reset your password. Open the link below to choose a new one:\n\n${link}\n\nThe link expires in 1 hour. If you did not ask for this, you can ignore this email.`
+    });
+};
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { client } from '../lib/redis.js';
+import config from '../config/config.js';
+import postModel from '../models/post.model.js';
+import postViewStatModel from '../models/postViewStat.model.js';
+import { queueRankingUpdate } from './rankings.js';
+
+// Views are counted in a Redis hash and moved to Mongo by a background job.
+// Each field is "<postId>|<authorId>|<day>|<referrer>".
+const VIEW_BUFFER_KEY = 'views:buffer';
+// The buffer while it is being flushed. A flush that failed halfway is
+// picked up again by the next run, which may count part of it twice.
+const FLUSHING_KEY = 'views:buffer:flushing';
+const SEEN_KEY = (postId: string, viewerId: string) =>
+    `views:seen:${postId}:${viewerId}`;
+
+export const DIRECT_REFERRER = 'direct';
+
+// Logged-in users are counted by ID, anonymous visitors by a hash of their
+// IP address and browser
+export const getViewerId = (
+    userId: string | undefined,
+    ip = '',
+    userAgent = ''
+) =>
+    userId
+        ? `user:${userId}`
+        : `anon:${crypto
+              .createHash('sha256')
+              .update(`${ip}|${userAgent}`)
+              .digest('hex')
+              .slice(0, 32)}`;
+
+// "https://www.google.com/search?q=..." is counted as google.com
+export const parseReferrer = (referrer?: string) => {
+    if (!referrer) return DIRECT_REFERRER;
+
+    try {
+        return (
+            new URL(referrer).hostname.replace(/^www\./, '') || DIRECT_REFERRER
+        );
+    } catch {
+        return DIRECT_REFERRER;
+    }
+};
+
+// Start of the UTC day, which is what daily stats are keyed by
+export const startOfDay = (date = new Date()) =>
+    new Date(date.toISOString().slice(0, 10));
+
+// Count a view unless the visitor already viewed the post recently. Authors
+// viewing their own posts are not counted.
+export const recordView = async (
+    post: { _id: unknown; author?: unknown; coAuthors?: unknown[] },
+    viewerId: string,
+    referrer: string
+) => {
+    const postId = String(post._id);
+    const authorId = String(post.author);
+
+    if (
+        [post.author, ...(post.coAuthors || [])].some(
+            (author) => viewerId === `user:${author}`
+        )
+    ) {
+        return;
+    }
+
+    const isNew = await client.set(SEEN_KEY(postId, viewerId), '1', {
+        NX: true,
+        EX: config.VIEW_DEDUP_MINUTES * 60
+    });
+    if (!isNew) return;
+
+    const day = new Date().toISOString().slice(0, 10);
+    await client.hIncrBy(
+        VIEW_BUFFER_KEY,
+        [postId, authorId, day, referrer].join('|'),
+        1
+    );
+};
+
+// Move the buffered view counts to the posts and their daily stats
+export const flushViews = async () => {
+    if (!(await client.exists(FLUSHING_KEY))) {
+        if (!(await client.exists(VIEW_BUFFER_KEY))) return 0;
+        await client.rename(VIEW_BUFFER_KEY, FLUSHING_KEY);
+    }
+
+    const buffer = await client.hGetAll(FLUSHING_KEY);
+    const viewsByPost = new Map<string, number>();
+    const stats = [];
+
+    for (const [field, value] of Object.entries(buffer)) {
+        const [post, author, day, referrer] = field.split('|');
+        const views = Number(value);
+
+        viewsByPost.set(post, (viewsByPost.get(post) || 0) + views);
+        stats.push({
+            updateOne: {
+                filter: { post, day: new Date(day), referrer },
+                update: { $inc: { views }, $setOnInsert: { author } },
+                upsert: true
+            }
+        });
+    }
+
+    if (stats.length > 0) {
+        await postModel.bulkWrite(
+            [...viewsByPost].map(([post, views]) => ({
+                updateOne: {
+                    filter: { _id: post },
+                    update: { $inc: { views } }
+                }
+            }))
+        );
+        await postViewStatModel.bulkWrite(stats);
+        await queueRankingUpdate([...viewsByPost.keys()]);
+    }
+
+    await client.del(FLUSHING_KEY);
+
+    return stats.length;
+};
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+const role = z.enum(['user', 'moderator', 'admin'], {
+    errorMap: () => ({
+        message: 'Role must be one of user, moderator or admin'
+    })
+});
+
+export const updateRoleValidation = z.object({ role });
+
+export const getUsersValidation = z.object({
+    role: role.optional(),
+    page: z.coerce
+        .number()
+        .int()
+        .min(1, { message: 'Page must be at least 1' })
+        .default(1),
+    limit: z.coerce
+        .number()
+        .int()
+        .min(1, { message: 'Limit must be at least 1' })
+        .max(100, { message: 'Limit cannot exceed 100' })
+        .default(20)
+});
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const analyticsValidation = z.object({
+    days: z.coerce
+        .number()
+        .int()
+        .min(1, { message: 'Days must be at least 1' })
+        .max(365, { message: 'Days cannot exceed 365' })
+        .default(30)
+});
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+const postIdField = z
+    .string({ message: 'Post ID is required' })
+    .regex(/^[a-f\d]{24}$/i, { message: 'Invalid post ID' });
+
+const nameField = z
+    .string({ message: 'Name is required' })
+    .trim()
+    .min(1, { message: 'Name is required' })
+    .max(100, { message: 'Name cannot exceed 100 characters' });
+
+const descriptionField = z
+    .string()
+    .trim()
+    .max(500, { message: 'Description cannot exceed 500 characters' });
+
+const visibilityField = z.enum(['private', 'public']);
+
+export const createReadingListValidation = z.object({
+    name: nameField,
+    description: descriptionField.optional(),
+    visibility: visibilityField.optional()
+});
+
+export const updateReadingListValidation = z
+    .object({
+        name: nameField.optional(),
+        description: descriptionField.optional(),
+        visibility: visibilityField.optional()
+    })
+    .refine(
+        (data) =>
+            data.name !== undefined ||
+            data.description !== undefined ||
+            data.visibility !== undefined,
+        { message: 'Nothing to update' }
+    );
+
+export const readingListPostValidation = z.object({
+    post: postIdField
+});
+
+// The list's posts in their new order
+export const reorderReadingListValidation = z.object({
+    posts: z.array(postIdField)
+});
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+const nameField = z
+    .string()
+    .trim()
+    .min(1, { message: 'Name is required' })
+    .max(50, { message: 'Name cannot exceed 50 characters' });
+
+const descriptionField = z
+    .string()
+    .trim()
+    .max(500, { message: 'Description cannot exceed 500 characters' });
+
+const categoryIdField = z
+    .string()
+    .regex(/^[a-f\d]{24}$/i, { message: 'Invalid category ID' });
+
+export const createCategoryValidation = z.object({
+    name: nameField,
+    description: descriptionField.optional(),
+    parent: categoryIdField.nullable().optional()
+});
+
+export const updateCategoryValidation = z
+    .object({
+        name: nameField.optional(),
+        description: descriptionField.optional(),
+        parent: categoryIdField.nullable().optional()
+    })
+    .refine(
+        (data) =>
+            data.name !== undefined ||
+            data.description !== undefined ||
+            data.parent !== undefined,
+        { message: 'Nothing to update' }
+    );
+
+export const mergeCategoryValidation = z.object({
+    into: categoryIdField
+});
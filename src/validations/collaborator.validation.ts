@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const inviteCollaboratorValidation = z.object({
+    user: z
+        .string({ message: 'User ID is required' })
+        .regex(/^[a-f\d]{24}$/i, { message: 'Invalid user ID' })
+});
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const paginationValidation = z.object({
+    cursor: z.string().optional(),
+    limit: z.coerce
+        .number()
+        .int()
+        .min(1, { message: 'Limit must be at least 1' })
+        .max(50, { message: 'Limit cannot exceed 50' })
+        .default(20)
+});
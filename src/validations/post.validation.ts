@@ -1,18 +1,144 @@
 import { z } from 'zod';
+import { MAX_TAGS, normalizeTag, normalizeTags } from '../utils/tags.js';
+import { MAX_ATTACHMENTS } from '../utils/attachments.js';
+
+const publishAtField = z.coerce
+    .date({ message: 'publishAt must be a valid date' })
+    .refine((date) => date > new Date(), {
+        message: 'publishAt must be in the future'
+    });
+
+const tagsField = z
+    .array(z.string())
+    .transform(normalizeTags)
+    .refine((tags) => tags.length <= MAX_TAGS, {
+        message: `A post can have at most ${MAX_TAGS} tags`
+    });
+
+// Multipart forms send nested data as a JSON string
+const jsonField = <T extends z.ZodTypeAny>(schema: T) =>
+    z.preprocess((value) => {
+        if (typeof value !== 'string') return value;
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value;
+        }
+    }, schema);
+
+const attachmentTextFields = {
+    alt: z
+        .string()
+        .trim()
+        .max(300, { message: 'Alt text cannot exceed 300 characters' })
+        .optional(),
+    caption: z
+        .string()
+        .trim()
+        .max(500, { message: 'Caption cannot exceed 500 characters' })
+        .optional()
+};
+
+// Alt text and caption of each uploaded file, in the order of the files
+const attachmentDetailsField = jsonField(
+    z.array(z.object(attachmentTextFields)).max(MAX_ATTACHMENTS, {
+        message: `A post can have at most ${MAX_ATTACHMENTS} attachments`
+    })
+);
 
 export const createPostValidation = z.object({
+    title: z
+        .string()
+        .trim()
+        .min(1, { message: 'Title is required' })
+        .max(150, { message: 'Title cannot exceed 150 characters' }),
     content: z
         .string()
         .optional(),
-    tags: z.array(z.string()).optional(),
+    tags: tagsField.optional(),
     category: z
         .string()
-        .optional()
+        .optional(),
+    status: z.enum(['draft', 'scheduled', 'published']).optional(),
+    publishAt: publishAtField.optional(),
+    premium: jsonField(z.boolean()).optional(),
+    attachmentDetails: attachmentDetailsField.optional()
 });
 
-export const updatePostValidation = z.object({
+export const updatePostValidation = z
+    .object({
+        title: z
+            .string()
+            .trim()
+            .min(1, { message: 'Title is required' })
+            .max(150, { message: 'Title cannot exceed 150 characters' })
+            .optional(),
+        content: z
+            .string()
+            .min(1, { message: 'Content should have at least 1 characters' })
+            .transform((val) => val.trim())
+            .optional(),
+        tags: tagsField.optional(),
+        category: z.string().optional(),
+        premium: jsonField(z.boolean()).optional(),
+        // The existing attachments to keep, in their new order. Any left out
+        // are removed. New uploads are added after them.
+        attachments: jsonField(
+            z.array(
+                z.object({
+                    id: z.string({ message: 'Attachment ID is required' }),
+                    ...attachmentTextFields
+                })
+            )
+        ).optional(),
+        attachmentDetails: attachmentDetailsField.optional(),
+        // Set by the server to the number of files uploaded with the request
+        uploadCount: z.number().int().default(0)
+    })
+    .refine(
+        (data) =>
+            data.title ||
+            data.content ||
+            data.tags ||
+            data.category ||
+            data.premium !== undefined ||
+            data.attachments ||
+            data.uploadCount > 0,
+        { message: 'Nothing to update' }
+    );
+
+// Commentary turns a repost into a quote
+export const repostValidation = z.object({
     content: z
         .string()
+        .trim()
         .min(1, { message: 'Content should have at least 1 characters' })
-        .transform((val) => val.trim()),
-});
\ No newline at end of file
+        .optional()
+});
+
+export const publishPostValidation = z.object({
+    publishAt: publishAtField.optional()
+});
+
+export const unpublishPostValidation = z.object({
+    status: z.enum(['draft', 'archived']).default('draft')
+});
+
+export const revisionDiffValidation = z.object({
+    from: z.coerce.number().int().positive().optional(),
+    to: z.coerce.number().int().positive().optional()
+});
+
+export const rankingValidation = z.object({
+    window: z.enum(['24h', '7d']).default('24h'),
+    // Category ID or slug
+    category: z.string().trim().min(1).optional(),
+    tag: z.string().transform(normalizeTag).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce
+        .number()
+        .int()
+        .min(1, { message: 'Limit must be at least 1' })
+        .max(50, { message: 'Limit cannot exceed 50' })
+        .default(20)
+});
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+const postIdField = z
+    .string({ message: 'Post ID is required' })
+    .regex(/^[a-f\d]{24}$/i, { message: 'Invalid post ID' });
+
+const titleField = z
+    .string({ message: 'Title is required' })
+    .trim()
+    .min(1, { message: 'Title is required' })
+    .max(150, { message: 'Title cannot exceed 150 characters' });
+
+const descriptionField = z
+    .string()
+    .trim()
+    .max(1000, { message: 'Description cannot exceed 1000 characters' });
+
+export const createSeriesValidation = z.object({
+    title: titleField,
+    description: descriptionField.optional()
+});
+
+export const updateSeriesValidation = z
+    .object({
+        title: titleField.optional(),
+        description: descriptionField.optional()
+    })
+    .refine(
+        (data) => data.title !== undefined || data.description !== undefined,
+        { message: 'Nothing to update' }
+    );
+
+// Position is 1-based, posts are added at the end by default
+export const seriesPostValidation = z.object({
+    post: postIdField,
+    position: z.coerce.number().int().min(1).optional()
+});
+
+// The series' posts in their new order
+export const reorderSeriesValidation = z.object({
+    posts: z.array(postIdField)
+});
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { normalizeTag } from '../utils/tags.js';
+
+const limitField = (max: number, fallback: number) =>
+    z.coerce
+        .number()
+        .int()
+        .min(1, { message: 'Limit must be at least 1' })
+        .max(max, { message: `Limit cannot exceed ${max}` })
+        .default(fallback);
+
+export const popularTagsValidation = z.object({
+    limit: limitField(50, 20)
+});
+
+export const tagAutocompleteValidation = z.object({
+    q: z.string().transform(normalizeTag).default(''),
+    limit: limitField(20, 10)
+});
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { TOKEN_SCOPES } from '../utils/accessToken.js';
 
 export const signupValidation = z.object({
     username: z
@@ -32,8 +33,69 @@ export const signinValidation = z.object({
 });
 
 export const changePasswordValidation = z.object({
+    currentPassword: z.string({
+        required_error: 'Current password is required'
+    }),
     password: z
     .string()
     .min(6, 'Password must be at least 6 characters')
     .max(15, 'Password must be at most 15 characters')
-})
\ No newline at end of file
+})
+
+export const setPasswordValidation = z.object({
+    password: z
+        .string()
+        .min(6, 'Password must be at least 6 characters')
+        .max(15, 'Password must be at most 15 characters')
+});
+
+export const refreshTokenValidation = z.object({
+    refreshToken: z.string({ required_error: 'Refresh token is required' })
+});
+
+export const verifyEmailValidation = z.object({
+    token: z.string({ required_error: 'Verification token is required' })
+});
+
+export const forgotPasswordValidation = z.object({
+    email: z.string().email('Invalid email address')
+});
+
+export const resetPasswordValidation = z.object({
+    token: z.string({ required_error: 'Reset token is required' }),
+    password: z
+        .string()
+        .min(6, 'Password must be at least 6 characters')
+        .max(15, 'Password must be at most 15 characters')
+});
+
+export const twoFactorCodeValidation = z.object({
+    code: z
+        .string({ required_error: 'Authentication code is required' })
+        .min(6, 'Authentication code must be at least 6 characters')
+});
+
+export const twoFactorVerifyValidation = twoFactorCodeValidation.extend({
+    challengeToken: z.string({ required_error: 'Challenge token is required' })
+});
+
+export const disableTwoFactorValidation = twoFactorCodeValidation.extend({
+    password: z.string({ required_error: 'Password is required' })
+});
+
+export const createAccessTokenValidation = z.object({
+    name: z
+        .string()
+        .trim()
+        .min(1, 'Token name is required')
+        .max(50, 'Token name must be at most 50 characters'),
+    scopes: z
+        .array(z.enum(TOKEN_SCOPES))
+        .min(1, 'At least one scope is required'),
+    expiresInDays: z
+        .number()
+        .int()
+        .min(1, 'Expiry must be at least 1 day')
+        .max(365, 'Expiry must be at most 365 days')
+        .optional()
+});
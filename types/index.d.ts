@@ -1,10 +1,12 @@
 import * as express from 'express';
+import { Role } from '../src/interfaces/interfaces.js';
 
 declare global {
     namespace Express {
         interface User {
             id: string;
-            token: string;
+            sid?: string;
+            role?: Role;
         }
         interface Request {
             user?: User;